@@ -1,4 +1,22 @@
-import { persistedQueries } from 'express-graphql-persisted-queries';
+import {
+  createCachedQueryStore,
+  createFileUsageSink,
+  createFunctionQueryStore,
+  createMetrics,
+  createPersistedQueryResolver,
+  createUsageRecorder,
+  findUnusedPersistedQueries,
+  persistedQueries,
+  persistedQueriesFastify,
+  persistedQueriesGraphQLWs,
+  persistedQueriesHttp,
+  persistedQueriesKoa,
+  resolveClientNamespace,
+  withETag,
+} from 'express-graphql-persisted-queries';
+import { createServer } from 'http';
+import { Transform } from 'stream';
+import { createBrotliDecompress } from 'zlib';
 
 type Maybe<T> = T | null | undefined;
 
@@ -34,6 +52,7 @@ persistedQueries({
 });
 
 persistedQueries({
+  apq: true,
   queryIdKey: 'id',
   queryMap: {
     greetGuest: '{ greet }',
@@ -56,3 +75,209 @@ persistedQueries(
     }),
   }),
 );
+
+persistedQueries({
+  queryMap: createCachedQueryStore(
+    createFunctionQueryStore((queryId: string): Maybe<string> => (queryId ? '{ greet }' : null)),
+    { maxSize: 100, ttl: 60000 },
+  ),
+});
+
+persistedQueries({
+  namespaces: {
+    'ios@2.0': { queryMap: { greetGuest: '{ greet }' }, fallback: 'ios' },
+    'ios': { queryMap: { greetGuest: '{ greet }' }, fallback: false, strict: true },
+  },
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+  resolveNamespace: (req): string[] => resolveClientNamespace(req),
+});
+
+persistedQueries({
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+  strict: async (req): Promise<boolean> => Promise.resolve(req.headers['x-admin'] !== 'true'),
+});
+
+persistedQueries({
+  cacheControl: { maxAge: 60, scope: 'public', staleWhileRevalidate: 30, vary: ['Authorization'] },
+  queryMap: {
+    greetGuest: { cachePolicy: { maxAge: 3600 }, query: '{ greet }' },
+    greetJohn: '{ greet(name: "John") }',
+  },
+});
+
+withETag((_req, res): void => {
+  res.end('{"data":{"greet":"Hello guest!"}}');
+});
+
+persistedQueries({
+  bodyLimit: '1mb',
+  contentEncodings: { br: (): Transform => createBrotliDecompress() },
+  decodeCharset: (body: Buffer, charset: string): Maybe<string> =>
+    charset === 'latin1' ? body.toString('latin1') : null,
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+});
+
+persistedQueries({
+  formatError: (error) =>
+    error.extensions != null && error.extensions.code === 'INTERNAL_SERVER_ERROR'
+      ? { extensions: error.extensions, message: 'Something went wrong.' }
+      : error,
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+});
+
+persistedQueries({
+  errorHandling: 'next',
+  onError: (error, req): void => {
+    console.warn(req.url, error.statusCode, error.extensions);
+  },
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+});
+
+persistedQueries({
+  onBodyParsed: ({ duration }): void => {
+    console.log('body parsed in', duration);
+  },
+  onMiss: ({ outcome, queryId }): void => {
+    console.log('miss', queryId, outcome);
+  },
+  onRejectStrict: ({ reason, req }): void => {
+    console.log('rejected', req.url, reason);
+  },
+  onResolve: ({ duration, outcome, queryId }): void => {
+    console.log('resolved', queryId, outcome, duration);
+  },
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+});
+
+persistedQueries({
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+  tracing: true,
+});
+
+const metrics = createMetrics({ buckets: [0.005, 0.05, 0.5], maxQueryIds: 100, prefix: 'app_' });
+
+persistedQueries({
+  metrics,
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+});
+
+const metricsText: string = metrics.render();
+
+console.log(metrics.contentType, metricsText);
+
+const usageRecorder = createUsageRecorder({
+  flushInterval: 30000,
+  onFlushError: (error): void => {
+    console.warn(error);
+  },
+  sink: createFileUsageSink('./usage.json'),
+});
+
+persistedQueries({
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+  usageRecorder,
+});
+
+usageRecorder
+  .getUsage()
+  .then((usage): void => {
+    const unusedQueryIds: string[] = findUnusedPersistedQueries(
+      Object.entries({ greetGuest: '{ greet }' }),
+      usage,
+      86400000,
+    );
+
+    const greetGuestUsage = usage.greetGuest;
+
+    console.log(unusedQueryIds, greetGuestUsage != null ? greetGuestUsage.calls : 0);
+  })
+  .catch(console.error);
+
+const handlePersistedQueries = persistedQueriesHttp({
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+});
+
+createServer((req, res): void => {
+  handlePersistedQueries(req, res)
+    .then((passesThrough: boolean): void => {
+      if (passesThrough) {
+        res.end();
+      }
+    })
+    .catch(console.error);
+});
+
+const koaMiddleware = persistedQueriesKoa({ queryMap: { greetGuest: '{ greet }' } });
+const fastifyPreHandler = persistedQueriesFastify({ queryMap: { greetGuest: '{ greet }' } });
+
+console.log(koaMiddleware, fastifyPreHandler);
+
+const resolvePersistedQuery = createPersistedQueryResolver({
+  queryMap: {
+    greetGuest: '{ greet }',
+  },
+  strict: (input) => input.headers == null || input.headers['x-internal'] !== 'true',
+});
+
+resolvePersistedQuery({
+  body: { queryId: 'greetGuest' },
+  headers: { 'apollographql-client-name': 'web' },
+  method: 'POST',
+})
+  .then((result): void => {
+    switch (result.type) {
+      case 'batch':
+        console.log(result.body.length);
+        break;
+      case 'error':
+        console.warn(result.error.statusCode, result.batchErrors);
+        break;
+      case 'passthrough':
+        console.log(result.body, result.strict);
+        break;
+      case 'persistedQuery':
+        console.log(result.body.query, result.persistedQuery.queryId);
+        break;
+    }
+  })
+  .catch(console.error);
+
+const onSubscribe = persistedQueriesGraphQLWs({
+  queryMap: {
+    onGreeting: 'subscription OnGreeting { greeting }',
+  },
+  strict: true,
+});
+
+onSubscribe({ extra: {} }, { payload: { extensions: { queryId: 'onGreeting' }, query: '' } })
+  .then((errors): void => {
+    console.log(errors != null ? errors.map((error) => error.message) : []);
+  })
+  .catch(console.error);
+
+persistedQueries({ queryMap: { greetGuest: '{ greet }' } })
+  .ready()
+  .then((): void => {
+    console.log('Persisted queries are ready.');
+  })
+  .catch(console.error);
@@ -0,0 +1,438 @@
+import fastify from 'fastify';
+import { GraphQLObjectType, GraphQLSchema, GraphQLString } from 'graphql';
+import type { ExecutionResult, GraphQLFormattedError } from 'graphql';
+import { createClient } from 'graphql-ws';
+import type { SubscribePayload } from 'graphql-ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { isHttpError } from 'http-errors';
+import Koa from 'koa';
+import request from 'supertest';
+import WebSocket from 'ws';
+import {
+  persistedQueriesFastify,
+  persistedQueriesGraphQLWs,
+  persistedQueriesHttp,
+  persistedQueriesKoa,
+} from '..';
+import {
+  HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_INTERNAL_SERVER_ERROR,
+  HTTP_STATUS_OK,
+} from '../constants';
+import type { Options, Request, ResolveInput } from '../types';
+
+const queryMap = {
+  greetGuest: '{ greet }',
+  greetings: 'subscription Greetings { greetings }',
+};
+
+const notFoundBody = {
+  errors: [
+    {
+      extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+      message: 'The provided query ID "unknown" did not match any persisted query.',
+    },
+  ],
+};
+
+function getErrorCode(error: unknown): unknown {
+  return isHttpError(error) ? (error.extensions as Record<string, unknown>).code : null;
+}
+
+describe('persistedQueriesHttp', () => {
+  function createApp(errorHandling?: 'next'): ReturnType<typeof createServer> {
+    const handlePersistedQueries = persistedQueriesHttp({ errorHandling, queryMap });
+
+    return createServer((req, res) => {
+      handlePersistedQueries(req, res)
+        .then((passesThrough) => {
+          if (passesThrough) {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify((req as Request).body));
+          }
+        })
+        .catch((error: unknown) => {
+          res.statusCode = HTTP_STATUS_INTERNAL_SERVER_ERROR;
+          res.end(String(getErrorCode(error)));
+        });
+    });
+  }
+
+  it('resolves with true and sets the query on the body when the request continues', async () => {
+    const response = await request(createApp()).post('/graphql').send({ queryId: 'greetGuest' });
+
+    expect(response.status).toBe(HTTP_STATUS_OK);
+    expect(response.body).toStrictEqual({ query: '{ greet }', queryId: 'greetGuest' });
+  });
+
+  it('resolves with false when it sends an error response', async () => {
+    const response = await request(createApp()).get('/graphql?queryId=unknown');
+
+    expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    expect(response.body).toStrictEqual(notFoundBody);
+  });
+
+  it('rejects with the error when "errorHandling" is "next"', async () => {
+    const response = await request(createApp('next')).get('/graphql?queryId=unknown');
+
+    expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+    expect(response.text).toBe('PERSISTED_QUERY_NOT_FOUND');
+  });
+});
+
+describe('persistedQueriesKoa', () => {
+  function createApp(): Koa {
+    const app = new Koa();
+
+    app.use(async (ctx, next) => {
+      try {
+        await next();
+      } catch (error: unknown) {
+        ctx.status = isHttpError(error) ? error.statusCode : HTTP_STATUS_INTERNAL_SERVER_ERROR;
+        ctx.body = { caught: getErrorCode(error) };
+      }
+    });
+
+    return app;
+  }
+
+  function echoBody(ctx: Koa.Context): void {
+    ctx.body = {
+      body: (ctx.request as { body?: unknown }).body,
+      reqBody: (ctx.req as Request).body,
+    };
+  }
+
+  it('parses the request body when it was not parsed yet', async () => {
+    const app = createApp();
+
+    app.use(persistedQueriesKoa({ queryMap }));
+    app.use(echoBody);
+
+    const response = await request(app.callback()).post('/graphql').send({ queryId: 'greetGuest' });
+
+    expect(response.status).toBe(HTTP_STATUS_OK);
+    expect(response.body).toStrictEqual({
+      body: { query: '{ greet }', queryId: 'greetGuest' },
+      reqBody: { query: '{ greet }', queryId: 'greetGuest' },
+    });
+  });
+
+  it('uses the body parsed into ctx.request.body', async () => {
+    const app = createApp();
+
+    app.use(async (ctx, next) => {
+      (ctx.request as { body?: unknown }).body = { queryId: 'greetGuest', parsed: true };
+
+      await next();
+    });
+    app.use(persistedQueriesKoa({ queryMap }));
+    app.use(echoBody);
+
+    const response = await request(app.callback()).post('/graphql').send('ignored');
+
+    expect(response.status).toBe(HTTP_STATUS_OK);
+    expect(response.body).toStrictEqual({
+      body: { parsed: true, query: '{ greet }', queryId: 'greetGuest' },
+      reqBody: { parsed: true, query: '{ greet }', queryId: 'greetGuest' },
+    });
+  });
+
+  it('sends an error response without calling the next middleware', async () => {
+    const app = createApp();
+    const nextMiddleware = jest.fn();
+
+    app.use(persistedQueriesKoa({ queryMap }));
+    app.use(nextMiddleware);
+
+    const response = await request(app.callback()).get('/graphql?queryId=unknown');
+
+    expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    expect(response.body).toStrictEqual(notFoundBody);
+    expect(nextMiddleware).not.toHaveBeenCalled();
+  });
+
+  it('throws the error when "errorHandling" is "next"', async () => {
+    const app = createApp();
+
+    app.use(persistedQueriesKoa({ errorHandling: 'next', queryMap }));
+    app.use(echoBody);
+
+    const response = await request(app.callback()).get('/graphql?queryId=unknown');
+
+    expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    expect(response.body).toStrictEqual({ caught: 'PERSISTED_QUERY_NOT_FOUND' });
+  });
+});
+
+describe('persistedQueriesFastify', () => {
+  function createApp(errorHandling?: 'next'): ReturnType<typeof fastify> {
+    const app = fastify();
+    const preHandler = persistedQueriesFastify({ errorHandling, queryMap });
+    const handler = async ({ body }: { body: unknown }): Promise<unknown> =>
+      Promise.resolve({ body: body ?? null });
+
+    app.get('/graphql', { preHandler }, handler);
+    app.post('/graphql', { preHandler }, handler);
+
+    return app;
+  }
+
+  it('uses the body parsed by Fastify', async () => {
+    const app = createApp();
+
+    await app.ready();
+
+    const response = await request(app.server).post('/graphql').send({ queryId: 'greetGuest' });
+
+    expect(response.status).toBe(HTTP_STATUS_OK);
+    expect(response.body).toStrictEqual({ body: { query: '{ greet }', queryId: 'greetGuest' } });
+
+    await app.close();
+  });
+
+  it('sets the query on the body of GET requests', async () => {
+    const app = createApp();
+
+    await app.ready();
+
+    const response = await request(app.server).get('/graphql?queryId=greetGuest');
+
+    expect(response.status).toBe(HTTP_STATUS_OK);
+    expect(response.body).toStrictEqual({ body: { query: '{ greet }' } });
+
+    await app.close();
+  });
+
+  it('sends an error response without calling the route handler', async () => {
+    const app = createApp();
+
+    await app.ready();
+
+    const response = await request(app.server).get('/graphql?queryId=unknown');
+
+    expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    expect(response.body).toStrictEqual(notFoundBody);
+
+    await app.close();
+  });
+
+  it('throws the error when "errorHandling" is "next"', async () => {
+    const app = createApp('next');
+
+    await app.ready();
+
+    const response = await request(app.server).get('/graphql?queryId=unknown');
+
+    expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    expect(response.body).toStrictEqual({
+      error: 'Bad Request',
+      message: 'The provided query ID "unknown" did not match any persisted query.',
+      statusCode: HTTP_STATUS_BAD_REQUEST,
+    });
+
+    await app.close();
+  });
+});
+
+describe('persistedQueriesGraphQLWs', () => {
+  const schema = new GraphQLSchema({
+    query: new GraphQLObjectType({
+      fields: { greet: { resolve: (): string => 'Hello, guest!', type: GraphQLString } },
+      name: 'Query',
+    }),
+    subscription: new GraphQLObjectType({
+      fields: {
+        greetings: {
+          resolve: (greeting: string): string => greeting,
+          async *subscribe(): AsyncGenerator<string> {
+            yield await Promise.resolve('Hi');
+            yield 'Bonjour';
+          },
+          type: GraphQLString,
+        },
+      },
+      name: 'Subscription',
+    }),
+  });
+
+  class WebSocketWithHeaders extends WebSocket {
+    public constructor(url: string, protocol: string) {
+      super(url, protocol, { headers: { 'x-strict': 'true' } });
+    }
+  }
+
+  async function subscribe(
+    options: Options<ResolveInput>,
+    payload: SubscribePayload,
+    webSocketImpl: unknown = WebSocket,
+  ): Promise<unknown[]> {
+    const server = createServer();
+    const wsServer = new WebSocket.Server({ path: '/graphql', server });
+
+    useServer({ onSubscribe: persistedQueriesGraphQLWs(options), schema }, wsServer);
+
+    await new Promise<void>((resolve) => {
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      server.listen(0, resolve);
+    });
+
+    const client = createClient({
+      retryAttempts: 0,
+      url: `ws://localhost:${(server.address() as AddressInfo).port}/graphql`,
+      webSocketImpl,
+    });
+    const results: unknown[] = [];
+
+    await new Promise<void>((resolve) => {
+      client.subscribe(payload, {
+        complete: resolve,
+        error: (errors: unknown) => {
+          results.push({ errors });
+          resolve();
+        },
+        next: (result: ExecutionResult) => {
+          results.push(result);
+        },
+      });
+    });
+
+    await client.dispose();
+    wsServer.close();
+    server.close();
+
+    return results;
+  }
+
+  it('resolves a query ID from the subscribe payload', async () => {
+    expect(
+      await subscribe({ queryMap }, { query: '', queryId: 'greetGuest' } as SubscribePayload),
+    ).toStrictEqual([{ data: { greet: 'Hello, guest!' } }]);
+  });
+
+  it('resolves a query ID from the extensions of the subscribe payload', async () => {
+    expect(
+      await subscribe(
+        { queryIdKey: 'id', queryMap },
+        { extensions: { id: 'greetings' }, query: '' },
+      ),
+    ).toStrictEqual([{ data: { greetings: 'Hi' } }, { data: { greetings: 'Bonjour' } }]);
+  });
+
+  it('prefers the query ID of the subscribe payload to that of its extensions', async () => {
+    expect(
+      await subscribe({ queryMap }, {
+        extensions: { queryId: 'greetings' },
+        query: '',
+        queryId: 'greetGuest',
+      } as SubscribePayload),
+    ).toStrictEqual([{ data: { greet: 'Hello, guest!' } }]);
+  });
+
+  it('executes ad hoc queries when not in strict mode', async () => {
+    expect(await subscribe({ queryMap }, { query: '{ greet }' })).toStrictEqual([
+      { data: { greet: 'Hello, guest!' } },
+    ]);
+  });
+
+  it('sends GraphQL errors over the socket', async () => {
+    expect(
+      await subscribe({ queryMap }, { extensions: { queryId: 'unknown' }, query: '' }),
+    ).toStrictEqual([
+      {
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            message: 'The provided query ID "unknown" did not match any persisted query.',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('formats the errors and reports them to onError', async () => {
+    const onError = jest.fn();
+    const formatError = (
+      error: GraphQLFormattedError,
+      req: ResolveInput,
+    ): GraphQLFormattedError => ({
+      ...error,
+      message: `${req.method}: ${error.message}`,
+    });
+
+    expect(
+      await subscribe(
+        { formatError, onError, queryMap },
+        { extensions: { queryId: 'unknown' }, query: '' },
+      ),
+    ).toStrictEqual([
+      {
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            message: 'POST: The provided query ID "unknown" did not match any persisted query.',
+          },
+        ],
+      },
+    ]);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }),
+      expect.objectContaining({ method: 'POST' }),
+    );
+  });
+
+  it('passes the headers of the upgrade request to callbacks that receive the request', async () => {
+    const options = {
+      queryMap,
+      strict: (req: ResolveInput): boolean => req.headers?.['x-strict'] === 'true',
+    };
+
+    expect(await subscribe(options, { query: '{ greet }' })).toStrictEqual([
+      { data: { greet: 'Hello, guest!' } },
+    ]);
+    expect(await subscribe(options, { query: '{ greet }' }, WebSocketWithHeaders)).toStrictEqual([
+      {
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+            message: 'Request body has "query" but only persisted queries are allowed.',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('sets the query text on the payload of the subscribe message', async () => {
+    const onSubscribe = persistedQueriesGraphQLWs({ queryMap });
+    const message = { payload: { extensions: { queryId: 'greetGuest' }, query: '' } };
+
+    expect(await onSubscribe({}, message)).toBeUndefined();
+    expect(message.payload).toStrictEqual({
+      extensions: { queryId: 'greetGuest' },
+      query: '{ greet }',
+    });
+  });
+
+  it('returns an error when the options are invalid', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation();
+    const onSubscribe = persistedQueriesGraphQLWs({
+      // @ts-expect-error Invalid usage
+      queryMap: null,
+    });
+
+    expect(await onSubscribe({}, { payload: { query: '{ greet }' } })).toStrictEqual([
+      expect.objectContaining({ extensions: { code: 'INTERNAL_SERVER_ERROR' } }) as unknown,
+    ]);
+
+    spy.mockRestore();
+  });
+
+  it('requires options', () => {
+    expect(() => {
+      // @ts-expect-error Invalid usage
+      persistedQueriesGraphQLWs();
+    }).toThrow(new Error('You must provide options to persistedQueriesGraphQLWs.'));
+  });
+});
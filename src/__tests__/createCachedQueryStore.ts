@@ -0,0 +1,175 @@
+import { createCachedQueryStore, createMapQueryStore, createObjectQueryStore } from '..';
+import type { Maybe, QueryStore } from '../types';
+
+function createSpyQueryStore(queries: Record<string, string>): QueryStore & {
+  get: jest.Mock<Maybe<string>, [string]>;
+} {
+  return {
+    get: jest.fn((queryId: string) => queries[queryId]),
+  };
+}
+
+describe('createCachedQueryStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('caches found queries', async () => {
+    const queryStore = createSpyQueryStore({ greetGuest: '{ greet }' });
+    const cachedQueryStore = createCachedQueryStore(queryStore);
+
+    expect(await cachedQueryStore.get('greetGuest')).toBe('{ greet }');
+    expect(await cachedQueryStore.get('greetGuest')).toBe('{ greet }');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(1);
+    expect(cachedQueryStore.getStats()).toStrictEqual({ hits: 1, misses: 1, size: 1 });
+  });
+
+  it('does not cache query IDs that did not match any query by default', async () => {
+    const queryStore = createSpyQueryStore({});
+    const cachedQueryStore = createCachedQueryStore(queryStore);
+
+    expect(await cachedQueryStore.get('unknown')).toBeUndefined();
+    expect(await cachedQueryStore.get('unknown')).toBeUndefined();
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(2);
+    expect(cachedQueryStore.getStats()).toStrictEqual({ hits: 0, misses: 2, size: 0 });
+  });
+
+  it('caches query IDs that did not match any query for "negativeTtl" milliseconds', async () => {
+    const queryStore = createSpyQueryStore({});
+    const cachedQueryStore = createCachedQueryStore(queryStore, { negativeTtl: 1000 });
+
+    await cachedQueryStore.get('unknown');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.advanceTimersByTime(999);
+    await cachedQueryStore.get('unknown');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(1);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.advanceTimersByTime(1);
+    await cachedQueryStore.get('unknown');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(2);
+    expect(cachedQueryStore.getStats()).toStrictEqual({ hits: 1, misses: 2, size: 1 });
+  });
+
+  it('caches found queries for "ttl" milliseconds', async () => {
+    const queryStore = createSpyQueryStore({ greetGuest: '{ greet }' });
+    const cachedQueryStore = createCachedQueryStore(queryStore, { ttl: 1000 });
+
+    await cachedQueryStore.get('greetGuest');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.advanceTimersByTime(999);
+    await cachedQueryStore.get('greetGuest');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(1);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.advanceTimersByTime(1);
+    await cachedQueryStore.get('greetGuest');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache found queries when "ttl" is 0', async () => {
+    const queryStore = createSpyQueryStore({ greetGuest: '{ greet }' });
+    const cachedQueryStore = createCachedQueryStore(queryStore, { ttl: 0 });
+
+    await cachedQueryStore.get('greetGuest');
+    await cachedQueryStore.get('greetGuest');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used query ID when "maxSize" is exceeded', async () => {
+    const queryStore = createSpyQueryStore({ a: '{ a }', b: '{ b }', c: '{ c }' });
+    const cachedQueryStore = createCachedQueryStore(queryStore, { maxSize: 2 });
+
+    await cachedQueryStore.get('a');
+    await cachedQueryStore.get('b');
+    await cachedQueryStore.get('a');
+    await cachedQueryStore.get('c');
+
+    expect(cachedQueryStore.getStats()).toStrictEqual({ hits: 1, misses: 3, size: 2 });
+
+    await cachedQueryStore.get('a');
+    await cachedQueryStore.get('b');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(queryStore.get).toHaveBeenCalledTimes(4);
+    expect(queryStore.get).toHaveBeenLastCalledWith('b', undefined);
+  });
+
+  it('caches queries that are set through it', async () => {
+    const queries = new Map<string, string>();
+    const cachedQueryStore = createCachedQueryStore(createMapQueryStore(queries));
+
+    await cachedQueryStore.set?.('greetGuest', '{ greet }');
+
+    expect(queries.get('greetGuest')).toBe('{ greet }');
+    expect(Array.from((await cachedQueryStore.entries?.()) ?? [])).toStrictEqual([
+      ['greetGuest', '{ greet }'],
+    ]);
+    expect(await cachedQueryStore.get('greetGuest')).toBe('{ greet }');
+    expect(cachedQueryStore.getStats()).toStrictEqual({ hits: 1, misses: 0, size: 1 });
+  });
+
+  it('is read-only when the underlying store is read-only', () => {
+    const cachedQueryStore = createCachedQueryStore(createObjectQueryStore({}));
+
+    expect(cachedQueryStore.set).toBeUndefined();
+  });
+
+  it('lists the queries of the underlying store', async () => {
+    const cachedQueryStore = createCachedQueryStore(
+      createObjectQueryStore({ greetGuest: '{ greet }', unknown: null }),
+    );
+
+    expect(await cachedQueryStore.entries?.()).toStrictEqual([['greetGuest', '{ greet }']]);
+    expect(createCachedQueryStore(createSpyQueryStore({})).entries).toBeUndefined();
+  });
+
+  it('allows removing query IDs from the cache', async () => {
+    const queryStore = createSpyQueryStore({ a: '{ a }', b: '{ b }' });
+    const cachedQueryStore = createCachedQueryStore(queryStore);
+
+    await cachedQueryStore.get('a');
+    await cachedQueryStore.get('b');
+    cachedQueryStore.delete('a');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(cachedQueryStore.getStats().size).toBe(1);
+
+    cachedQueryStore.clear();
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(cachedQueryStore.getStats().size).toBe(0);
+  });
+
+  it('validates its options', () => {
+    const queryStore = createObjectQueryStore({});
+
+    expect(() => createCachedQueryStore(queryStore, { maxSize: 0 })).toThrow(
+      new TypeError('The maxSize option of createCachedQueryStore must be a positive integer.'),
+    );
+    expect(() => createCachedQueryStore(queryStore, { ttl: -1 })).toThrow(
+      new TypeError('The ttl option of createCachedQueryStore must be a non-negative number.'),
+    );
+    expect(() => createCachedQueryStore(queryStore, { negativeTtl: -1 })).toThrow(
+      new TypeError(
+        'The negativeTtl option of createCachedQueryStore must be a non-negative number.',
+      ),
+    );
+  });
+});
@@ -0,0 +1,331 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { GraphQLObjectType, GraphQLSchema, GraphQLString } from 'graphql';
+import { tmpdir } from 'os';
+import path from 'path';
+import rimraf from 'rimraf';
+import { createFileQueryStore } from '..';
+import type { FileQueryStore, ReloadEvent } from '../types';
+
+const DEBOUNCE_MILLISECONDS = 10;
+const SETTLE_MILLISECONDS = 50;
+
+async function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, milliseconds);
+  });
+}
+
+function writeJson(filePath: string, json: unknown): void {
+  writeFileSync(filePath, JSON.stringify(json));
+}
+
+interface ReloadListener {
+  nextReload: () => Promise<ReloadEvent>;
+  onReload: (event: ReloadEvent) => void;
+}
+
+function createReloadListener(): ReloadListener {
+  let resolveReload: (event: ReloadEvent) => void = () => undefined;
+
+  return {
+    nextReload: async (): Promise<ReloadEvent> =>
+      new Promise((resolve) => {
+        resolveReload = resolve;
+      }),
+    onReload: (event): void => {
+      resolveReload(event);
+    },
+  };
+}
+
+describe('createFileQueryStore', () => {
+  let tmpDir = '';
+  let queryStore: FileQueryStore | null = null;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(path.join(tmpdir(), 'express-graphql-persisted-queries-'));
+  });
+
+  afterEach(() => {
+    queryStore?.close();
+    queryStore = null;
+    rimraf.sync(tmpDir);
+  });
+
+  it('serves the queries of a manifest file', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    queryStore = createFileQueryStore({ path: filePath, watch: false });
+
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+    expect(await queryStore.get('toString')).toBeNull();
+    expect(await queryStore.entries?.()).toStrictEqual([['greetGuest', '{ greet }']]);
+  });
+
+  it('merges the manifests of a directory', async () => {
+    writeJson(path.join(tmpDir, 'web.json'), { greetGuest: '{ greet }' });
+    writeJson(path.join(tmpDir, 'ios.json'), {
+      operations: [{ id: 'like', body: 'mutation { like }' }],
+    });
+    writeFileSync(path.join(tmpDir, 'README.md'), '# Manifests');
+
+    const onReload = jest.fn();
+
+    queryStore = createFileQueryStore({ path: tmpDir, onReload, watch: false });
+
+    expect(await queryStore.entries?.()).toStrictEqual([
+      ['like', 'mutation { like }'],
+      ['greetGuest', '{ greet }'],
+    ]);
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+    expect(await queryStore.get('like')).toBe('mutation { like }');
+    expect(onReload).toHaveBeenCalledWith({ path: tmpDir, queryCount: 2 });
+  });
+
+  it('rejects manifests of a directory that map a query ID to different queries', async () => {
+    writeJson(path.join(tmpDir, 'a.json'), { greet: '{ greet }' });
+    writeJson(path.join(tmpDir, 'b.json'), { greet: '{ greet(name: "John") }' });
+
+    const onReloadError = jest.fn();
+
+    queryStore = createFileQueryStore({ path: tmpDir, onReloadError, watch: false });
+
+    const expectedError = new TypeError(
+      `Invalid persisted query manifest "${path.join(
+        tmpDir,
+        'b.json',
+      )}": the query ID "greet" maps to a different query in another manifest of "${tmpDir}".`,
+    );
+
+    await expect(queryStore.get('greet')).rejects.toThrow(expectedError);
+    expect(onReloadError).toHaveBeenCalledWith(expectedError);
+  });
+
+  it('reports an error when the initial load fails', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation();
+    const filePath = path.join(tmpDir, 'missing.json');
+
+    queryStore = createFileQueryStore({ path: filePath, watch: false });
+
+    await expect(queryStore.get('greetGuest')).rejects.toThrow('ENOENT');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(console.error).toHaveBeenCalledTimes(1);
+
+    spy.mockRestore();
+  });
+
+  it('reports a missing path through onReloadError when watching', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+    const { nextReload, onReload } = createReloadListener();
+    const onReloadError = jest.fn();
+
+    queryStore = createFileQueryStore({
+      debounce: DEBOUNCE_MILLISECONDS,
+      onReload,
+      onReloadError,
+      path: filePath,
+    });
+
+    await expect(queryStore.get('greetGuest')).rejects.toThrow('ENOENT');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(onReloadError).toHaveBeenCalledTimes(1);
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+    await queryStore.reload();
+    writeJson(filePath, { greetJohn: '{ greet(name: "John") }' });
+    await nextReload();
+
+    expect(await queryStore.get('greetJohn')).toBe('{ greet(name: "John") }');
+  });
+
+  it('reloads a manifest file fixed after the initial load failed', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+    const { nextReload, onReload } = createReloadListener();
+    const onReloadError = jest.fn();
+
+    writeFileSync(filePath, '{');
+
+    queryStore = createFileQueryStore({
+      debounce: DEBOUNCE_MILLISECONDS,
+      onReload,
+      onReloadError,
+      path: filePath,
+    });
+
+    await expect(queryStore.get('greetGuest')).rejects.toThrow('is not valid JSON');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(onReloadError).toHaveBeenCalledTimes(1);
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    expect(await nextReload()).toStrictEqual({ path: filePath, queryCount: 1 });
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+  });
+
+  it('does not start watching when closed before the initial load', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+    const onReload = jest.fn();
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    queryStore = createFileQueryStore({
+      debounce: DEBOUNCE_MILLISECONDS,
+      onReload,
+      path: filePath,
+    });
+    queryStore.close();
+
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+
+    writeJson(filePath, { greetJohn: '{ greet(name: "John") }' });
+    await wait(SETTLE_MILLISECONDS);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  it('swaps the queries when reloaded', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    queryStore = createFileQueryStore({ path: filePath, watch: false });
+
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+
+    writeJson(filePath, { greetJohn: '{ greet(name: "John") }' });
+    await queryStore.reload();
+
+    expect(await queryStore.get('greetGuest')).toBeNull();
+    expect(await queryStore.get('greetJohn')).toBe('{ greet(name: "John") }');
+  });
+
+  it('keeps serving the previous queries when a reload fails', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+    const onReloadError = jest.fn();
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    queryStore = createFileQueryStore({ path: filePath, onReloadError, watch: false });
+
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+
+    writeFileSync(filePath, '{');
+
+    await expect(queryStore.reload()).rejects.toThrow('is not valid JSON');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(onReloadError).toHaveBeenCalledTimes(1);
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+  });
+
+  it('keeps serving the previous queries when reloaded queries are invalid against the schema', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+    const onReloadError = jest.fn();
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({ fields: { greet: { type: GraphQLString } }, name: 'Query' }),
+    });
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    queryStore = createFileQueryStore({ onReloadError, path: filePath, schema, watch: false });
+
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+
+    writeJson(filePath, { greetGuest: '{ greet }', typo: '{ gret }' });
+
+    await expect(queryStore.reload()).rejects.toThrow(
+      new TypeError(
+        'Some persisted queries are invalid against the schema:\n- "typo": Cannot query field "gret" on type "Query". Did you mean "greet"?',
+      ),
+    );
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(onReloadError).toHaveBeenCalledTimes(1);
+    expect(await queryStore.get('typo')).toBeNull();
+  });
+
+  it('reloads a manifest file when it changes', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    const { nextReload, onReload } = createReloadListener();
+    const initialReload = nextReload();
+
+    queryStore = createFileQueryStore({
+      debounce: DEBOUNCE_MILLISECONDS,
+      onReload,
+      path: filePath,
+    });
+
+    await initialReload;
+
+    writeJson(path.join(tmpDir, 'other.json'), { greetWorld: '{ greet(name: "world") }' });
+    writeJson(filePath, { greetJohn: '{ greet(name: "John") }' });
+
+    expect(await nextReload()).toStrictEqual({ path: filePath, queryCount: 1 });
+    expect(await queryStore.get('greetJohn')).toBe('{ greet(name: "John") }');
+    expect(await queryStore.get('greetWorld')).toBeNull();
+  });
+
+  it('reloads a directory of manifests when a manifest is added', async () => {
+    const manifestDir = path.join(tmpDir, 'manifests');
+
+    mkdirSync(manifestDir);
+    writeJson(path.join(manifestDir, 'web.json'), { greetGuest: '{ greet }' });
+
+    const { nextReload, onReload } = createReloadListener();
+
+    queryStore = createFileQueryStore({
+      debounce: DEBOUNCE_MILLISECONDS,
+      onReload,
+      path: manifestDir,
+    });
+
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+
+    writeJson(path.join(manifestDir, 'ios.json'), { like: 'mutation { like }' });
+    await nextReload();
+
+    expect(await queryStore.get('like')).toBe('mutation { like }');
+  });
+
+  it('stops reloading when closed', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+    const onReload = jest.fn();
+
+    writeJson(filePath, { greetGuest: '{ greet }' });
+
+    queryStore = createFileQueryStore({
+      debounce: DEBOUNCE_MILLISECONDS,
+      onReload,
+      path: filePath,
+    });
+
+    await queryStore.get('greetGuest');
+    writeJson(filePath, { greetJohn: '{ greet(name: "John") }' });
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    await wait(1);
+    queryStore.close();
+    await wait(SETTLE_MILLISECONDS);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(onReload).toHaveBeenCalledTimes(1);
+    expect(await queryStore.get('greetGuest')).toBe('{ greet }');
+  });
+
+  it('requires the schema to be a GraphQLSchema', () => {
+    expect(() =>
+      // @ts-expect-error Invalid usage
+      createFileQueryStore({ path: tmpDir, schema: {} }),
+    ).toThrow(new TypeError('The schema option of createFileQueryStore must be a GraphQLSchema.'));
+  });
+
+  it('requires a path', () => {
+    expect(() =>
+      // @ts-expect-error Invalid usage
+      createFileQueryStore({}),
+    ).toThrow(new TypeError('The path option of createFileQueryStore must be a string.'));
+  });
+});
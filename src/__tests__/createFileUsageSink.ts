@@ -0,0 +1,57 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import rimraf from 'rimraf';
+import { createFileUsageSink } from '..';
+
+describe('createFileUsageSink', () => {
+  let tmpDir = '';
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(path.join(tmpdir(), 'express-graphql-persisted-queries-'));
+  });
+
+  afterEach(() => {
+    rimraf.sync(tmpDir);
+  });
+
+  it('saves the usage to a JSON file and loads it back', async () => {
+    const filePath = path.join(tmpDir, 'usage.json');
+    const sink = createFileUsageSink(filePath);
+    const usage = { greetGuest: { calls: 2, firstSeen: 1000, lastSeen: 2000 } };
+
+    await sink.save(usage);
+
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toStrictEqual(usage);
+    expect(await sink.load?.()).toStrictEqual(usage);
+  });
+
+  it('treats a missing file as no usage', async () => {
+    const sink = createFileUsageSink(path.join(tmpDir, 'usage.json'));
+
+    expect(await sink.load?.()).toBeNull();
+  });
+
+  it('rejects invalid files', async () => {
+    const filePath = path.join(tmpDir, 'usage.json');
+    const sink = createFileUsageSink(filePath);
+
+    writeFileSync(filePath, '{');
+
+    await expect(sink.load?.()).rejects.toThrow(
+      `Invalid usage file "${filePath}": the file is not valid JSON`,
+    );
+
+    writeFileSync(filePath, '[]');
+
+    await expect(sink.load?.()).rejects.toThrow(
+      `Invalid usage file "${filePath}": expected an object mapping query IDs to their usage.`,
+    );
+
+    writeFileSync(filePath, JSON.stringify({ greetGuest: { calls: '2' } }));
+
+    await expect(sink.load?.()).rejects.toThrow(
+      `Invalid usage file "${filePath}": the query ID "greetGuest" must map to an object with numeric "calls", "firstSeen", and "lastSeen".`,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { createMetrics } from '..';
+
+const DURATION_MILLISECONDS = 1;
+
+describe('createMetrics', () => {
+  it('renders empty metric families initially', () => {
+    const metrics = createMetrics();
+
+    expect(metrics.contentType).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(metrics.render()).toBe(
+      [
+        '# HELP persisted_queries_requests_total Requests handled by the persisted queries middleware, by outcome.',
+        '# TYPE persisted_queries_requests_total counter',
+        '# HELP persisted_queries_lookup_duration_seconds Latency of persisted query lookups, by outcome.',
+        '# TYPE persisted_queries_lookup_duration_seconds histogram',
+        '# HELP persisted_queries_query_id_requests_total Requests that resolved a persisted query, by query ID.',
+        '# TYPE persisted_queries_query_id_requests_total counter',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders requests, lookups and query ID usage in the Prometheus text format', () => {
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    const metrics = createMetrics({ buckets: [0.1, 0.01], prefix: 'pq_' });
+
+    metrics.recordRequest('hit');
+    metrics.recordRequest('hit');
+    metrics.recordRequest('miss');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    metrics.observeLookUp('found', 'greetGuest', 5);
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    metrics.observeLookUp('found', 'greetGuest', 50);
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    metrics.observeLookUp('rejected', 'unknown', 500);
+
+    expect(metrics.render()).toBe(
+      [
+        '# HELP pq_requests_total Requests handled by the persisted queries middleware, by outcome.',
+        '# TYPE pq_requests_total counter',
+        'pq_requests_total{outcome="hit"} 2',
+        'pq_requests_total{outcome="miss"} 1',
+        '# HELP pq_lookup_duration_seconds Latency of persisted query lookups, by outcome.',
+        '# TYPE pq_lookup_duration_seconds histogram',
+        'pq_lookup_duration_seconds_bucket{le="0.01",outcome="found"} 1',
+        'pq_lookup_duration_seconds_bucket{le="0.1",outcome="found"} 2',
+        'pq_lookup_duration_seconds_bucket{le="+Inf",outcome="found"} 2',
+        'pq_lookup_duration_seconds_sum{outcome="found"} 0.055',
+        'pq_lookup_duration_seconds_count{outcome="found"} 2',
+        'pq_lookup_duration_seconds_bucket{le="0.01",outcome="rejected"} 0',
+        'pq_lookup_duration_seconds_bucket{le="0.1",outcome="rejected"} 0',
+        'pq_lookup_duration_seconds_bucket{le="+Inf",outcome="rejected"} 1',
+        'pq_lookup_duration_seconds_sum{outcome="rejected"} 0.5',
+        'pq_lookup_duration_seconds_count{outcome="rejected"} 1',
+        '# HELP pq_query_id_requests_total Requests that resolved a persisted query, by query ID.',
+        '# TYPE pq_query_id_requests_total counter',
+        'pq_query_id_requests_total{query_id="greetGuest"} 2',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('counts the usage of query IDs beyond "maxQueryIds" under "__other__"', () => {
+    const metrics = createMetrics({ maxQueryIds: 2 });
+
+    metrics.observeLookUp('found', 'first', DURATION_MILLISECONDS);
+    metrics.observeLookUp('registered', 'second', DURATION_MILLISECONDS);
+    metrics.observeLookUp('found', 'third', DURATION_MILLISECONDS);
+    metrics.observeLookUp('found', 'first', DURATION_MILLISECONDS);
+    metrics.observeLookUp('found', 'fourth', DURATION_MILLISECONDS);
+
+    const rendered = metrics.render();
+
+    expect(rendered).toContain('persisted_queries_query_id_requests_total{query_id="first"} 2\n');
+    expect(rendered).toContain('persisted_queries_query_id_requests_total{query_id="second"} 1\n');
+    expect(rendered).toContain(
+      'persisted_queries_query_id_requests_total{query_id="__other__"} 2\n',
+    );
+    expect(rendered).not.toContain('query_id="third"');
+  });
+
+  it('escapes label values', () => {
+    const metrics = createMetrics();
+
+    metrics.observeLookUp('found', 'a\\b"c\nd', DURATION_MILLISECONDS);
+
+    expect(metrics.render()).toContain(
+      'persisted_queries_query_id_requests_total{query_id="a\\\\b\\"c\\nd"} 1\n',
+    );
+  });
+
+  it('allows resetting all metrics', () => {
+    const metrics = createMetrics();
+    const initial = metrics.render();
+
+    metrics.recordRequest('ad_hoc');
+    metrics.observeLookUp('found', 'greetGuest', DURATION_MILLISECONDS);
+    metrics.reset();
+
+    expect(metrics.render()).toBe(initial);
+  });
+
+  it('validates its options', () => {
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(() => createMetrics({ buckets: [0.1, -1] })).toThrow(
+      'The buckets option of createMetrics must be an array of positive numbers.',
+    );
+    expect(() => createMetrics({ maxQueryIds: 0 })).toThrow(
+      'The maxQueryIds option of createMetrics must be a positive integer.',
+    );
+    expect(() => createMetrics({ prefix: 'persisted-queries' })).toThrow(
+      'The prefix option of createMetrics must be a valid Prometheus metric name prefix.',
+    );
+  });
+});
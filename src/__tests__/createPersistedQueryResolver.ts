@@ -0,0 +1,216 @@
+import { URLSearchParams } from 'url';
+import { createPersistedQueryResolver } from '..';
+import {
+  HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_INTERNAL_SERVER_ERROR,
+  HTTP_STATUS_METHOD_NOT_ALLOWED,
+} from '../constants';
+import type { ResolveInput, ResolveResult } from '../types';
+
+const queryMap = {
+  greetGuest: '{ greet }',
+  like: 'mutation LikeMutation { like }',
+};
+
+function getErrorCode(result: ResolveResult): unknown {
+  return result.type === 'error' ? (result.error.extensions as Record<string, unknown>).code : null;
+}
+
+describe('createPersistedQueryResolver', () => {
+  it('resolves a query ID from the search params of the URL', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ queryMap });
+
+    expect(
+      await resolvePersistedQuery({ method: 'GET', url: '/graphql?queryId=greetGuest' }),
+    ).toStrictEqual({
+      body: { query: '{ greet }' },
+      persistedQuery: {
+        cachePolicy: null,
+        operation: expect.objectContaining({ operation: 'query' }) as unknown,
+        outcome: 'found',
+        query: '{ greet }',
+        queryId: 'greetGuest',
+      },
+      strict: false,
+      type: 'persistedQuery',
+    });
+  });
+
+  it('resolves a query ID from the body without mutating it', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ queryMap });
+    const body = { queryId: 'greetGuest', variables: {} };
+    const result = await resolvePersistedQuery({ body, method: 'POST' });
+
+    expect(result).toMatchObject({
+      body: { query: '{ greet }', queryId: 'greetGuest', variables: {} },
+      type: 'persistedQuery',
+    });
+    expect(body).toStrictEqual({ queryId: 'greetGuest', variables: {} });
+  });
+
+  it('prefers the given search params to those of the URL', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ queryMap });
+
+    expect(
+      await resolvePersistedQuery({
+        method: 'GET',
+        searchParams: new URLSearchParams({ queryId: 'greetGuest' }),
+        url: '/graphql?queryId=unknown',
+      }),
+    ).toMatchObject({ persistedQuery: { queryId: 'greetGuest' }, type: 'persistedQuery' });
+    expect(
+      await resolvePersistedQuery({ method: 'GET', searchParams: { queryId: 'greetGuest' } }),
+    ).toMatchObject({ persistedQuery: { queryId: 'greetGuest' }, type: 'persistedQuery' });
+  });
+
+  it('passes through requests that do not use a persisted query', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ queryMap });
+    const body = { query: '{ greet }' };
+
+    expect(await resolvePersistedQuery({ body, method: 'POST' })).toStrictEqual({
+      body,
+      strict: false,
+      type: 'passthrough',
+    });
+  });
+
+  it('resolves the operations of a batch', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ batching: true, queryMap });
+
+    expect(
+      await resolvePersistedQuery({
+        body: [{ queryId: 'greetGuest' }, { query: '{ greet }' }],
+        method: 'POST',
+      }),
+    ).toStrictEqual({
+      body: [{ query: '{ greet }', queryId: 'greetGuest' }, { query: '{ greet }' }],
+      strict: false,
+      type: 'batch',
+    });
+
+    const result = await resolvePersistedQuery({
+      body: [{ queryId: 'greetGuest' }, { queryId: 'unknown' }],
+      method: 'POST',
+    });
+
+    expect(getErrorCode(result)).toBe('PERSISTED_QUERY_NOT_FOUND');
+    expect(result.type === 'error' ? result.batchErrors : null).toStrictEqual([
+      expect.objectContaining({
+        extensions: { code: 'BATCH_OPERATION_NOT_EXECUTED' },
+      }) as unknown,
+      expect.objectContaining({ extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }) as unknown,
+    ]);
+  });
+
+  it('returns typed errors', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ queryMap });
+    const notFound = await resolvePersistedQuery({ body: { queryId: 'unknown' }, method: 'POST' });
+    const notAllowed = await resolvePersistedQuery({ body: { queryId: 'like' }, method: 'GET' });
+
+    expect(notFound).toMatchObject({
+      error: {
+        message: 'The provided query ID "unknown" did not match any persisted query.',
+        statusCode: HTTP_STATUS_BAD_REQUEST,
+      },
+      type: 'error',
+    });
+    expect(getErrorCode(notFound)).toBe('PERSISTED_QUERY_NOT_FOUND');
+    expect(notAllowed).toMatchObject({
+      error: { statusCode: HTTP_STATUS_METHOD_NOT_ALLOWED },
+      type: 'error',
+    });
+    expect(getErrorCode(notAllowed)).toBe('OPERATION_NOT_ALLOWED');
+  });
+
+  it('blocks mutations from GET requests whose method is lowercase', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({ queryMap });
+
+    expect(
+      getErrorCode(await resolvePersistedQuery({ method: 'get', url: '/?queryId=like' })),
+    ).toBe('OPERATION_NOT_ALLOWED');
+    expect(
+      await resolvePersistedQuery({ body: { queryId: 'like' }, method: 'post' }),
+    ).toMatchObject({ persistedQuery: { queryId: 'like' }, type: 'persistedQuery' });
+  });
+
+  it('passes the headers of the input to callbacks that receive the request', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({
+      queryMap,
+      strict: (req) => req.headers?.['x-strict'] === 'true',
+    });
+    const body = { query: '{ greet }' };
+
+    expect(await resolvePersistedQuery({ body, method: 'POST' })).toStrictEqual({
+      body,
+      strict: false,
+      type: 'passthrough',
+    });
+    expect(
+      getErrorCode(
+        await resolvePersistedQuery({ body, headers: { 'x-strict': 'true' }, method: 'POST' }),
+      ),
+    ).toBe('PERSISTED_QUERY_REQUIRED');
+  });
+
+  it('resolves the namespace from the headers of the input', async () => {
+    const resolvePersistedQuery = createPersistedQueryResolver({
+      namespaces: { web: { fallback: false, queryMap: { greetWeb: '{ greet }' } } },
+      queryMap,
+    });
+
+    expect(
+      await resolvePersistedQuery({
+        body: { queryId: 'greetWeb' },
+        headers: { 'apollographql-client-name': 'web' },
+        method: 'POST',
+      }),
+    ).toMatchObject({ persistedQuery: { queryId: 'greetWeb' }, type: 'persistedQuery' });
+    expect(
+      getErrorCode(await resolvePersistedQuery({ body: { queryId: 'greetWeb' }, method: 'POST' })),
+    ).toBe('PERSISTED_QUERY_NOT_FOUND');
+  });
+
+  it('passes the input itself to callbacks that receive the request', async () => {
+    const getQuery = jest.fn((queryId: string) => (queryId === 'greetGuest' ? '{ greet }' : null));
+    const onResolve = jest.fn();
+    const strict = jest.fn((req: ResolveInput) => req.method === 'POST');
+    const resolvePersistedQuery = createPersistedQueryResolver({
+      onResolve,
+      queryMap: getQuery,
+      strict,
+    });
+    const input: ResolveInput = { body: { queryId: 'greetGuest' }, method: 'POST' };
+
+    expect(await resolvePersistedQuery(input)).toMatchObject({
+      strict: true,
+      type: 'persistedQuery',
+    });
+    expect(getQuery).toHaveBeenCalledWith('greetGuest', expect.objectContaining({ req: input }));
+    expect(onResolve).toHaveBeenCalledWith(expect.objectContaining({ req: input }));
+    expect(strict.mock.calls[0]?.[0]).toBe(input);
+  });
+
+  it('returns an error when the options are invalid', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation();
+    const resolvePersistedQuery = createPersistedQueryResolver({
+      // @ts-expect-error Invalid usage
+      queryMap: null,
+    });
+    const result = await resolvePersistedQuery({ method: 'GET' });
+
+    expect(result).toMatchObject({
+      error: { statusCode: HTTP_STATUS_INTERNAL_SERVER_ERROR },
+      type: 'error',
+    });
+    expect(getErrorCode(result)).toBe('INTERNAL_SERVER_ERROR');
+
+    spy.mockRestore();
+  });
+
+  it('requires options', () => {
+    expect(() => {
+      // @ts-expect-error Invalid usage
+      createPersistedQueryResolver();
+    }).toThrow(new Error('You must provide options to createPersistedQueryResolver.'));
+  });
+});
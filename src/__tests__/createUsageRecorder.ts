@@ -0,0 +1,174 @@
+import { createUsageRecorder } from '..';
+import type { QueryUsage, UsageRecorder, UsageSink } from '../types';
+
+const FLUSH_INTERVAL_MILLISECONDS = 10;
+
+async function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, milliseconds);
+  });
+}
+
+function createSpySink(usage: Record<string, QueryUsage> | null = null): UsageSink & {
+  load: jest.Mock<Record<string, QueryUsage> | null, []>;
+  save: jest.Mock<void, [Record<string, QueryUsage>]>;
+} {
+  return {
+    load: jest.fn(() => usage),
+    save: jest.fn(),
+  };
+}
+
+describe('createUsageRecorder', () => {
+  let usageRecorder: UsageRecorder | null = null;
+
+  afterEach(async () => {
+    await usageRecorder?.close();
+    usageRecorder = null;
+    jest.useRealTimers();
+  });
+
+  it('tracks the number of calls and when each query ID was first and last seen', async () => {
+    jest.useFakeTimers('modern');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.setSystemTime(1000);
+
+    usageRecorder = createUsageRecorder();
+    usageRecorder.record('greetGuest');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.setSystemTime(2000);
+    usageRecorder.record('greetGuest');
+    usageRecorder.record('like');
+
+    expect(await usageRecorder.getUsage()).toStrictEqual({
+      greetGuest: { calls: 2, firstSeen: 1000, lastSeen: 2000 },
+      like: { calls: 1, firstSeen: 2000, lastSeen: 2000 },
+    });
+  });
+
+  it('merges the usage loaded from the sink', async () => {
+    jest.useFakeTimers('modern');
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    jest.setSystemTime(3000);
+
+    const sink = createSpySink({
+      greetGuest: { calls: 5, firstSeen: 1000, lastSeen: 2000 },
+      like: { calls: 1, firstSeen: 1500, lastSeen: 1500 },
+    });
+
+    usageRecorder = createUsageRecorder({ sink });
+    usageRecorder.record('greetGuest');
+
+    expect(await usageRecorder.getUsage()).toStrictEqual({
+      greetGuest: { calls: 6, firstSeen: 1000, lastSeen: 3000 },
+      like: { calls: 1, firstSeen: 1500, lastSeen: 1500 },
+    });
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(sink.load).toHaveBeenCalledTimes(1);
+  });
+
+  it('flushes the usage to the sink periodically', async () => {
+    const sink = createSpySink();
+
+    usageRecorder = createUsageRecorder({ flushInterval: FLUSH_INTERVAL_MILLISECONDS, sink });
+    usageRecorder.record('greetGuest');
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    await wait(FLUSH_INTERVAL_MILLISECONDS * 2.5);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(sink.save.mock.calls.length).toBeGreaterThanOrEqual(2);
+    expect(sink.save).toHaveBeenLastCalledWith({
+      greetGuest: expect.objectContaining({ calls: 1 }) as unknown,
+    });
+  });
+
+  it('stops flushing the usage when closed', async () => {
+    const sink = createSpySink();
+
+    usageRecorder = createUsageRecorder({ flushInterval: FLUSH_INTERVAL_MILLISECONDS, sink });
+
+    await usageRecorder.close();
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(sink.save).toHaveBeenCalledTimes(1);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    await wait(FLUSH_INTERVAL_MILLISECONDS * 2);
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(sink.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not flush the usage periodically when "flushInterval" is 0', async () => {
+    const sink = createSpySink();
+
+    usageRecorder = createUsageRecorder({ flushInterval: 0, sink });
+
+    await wait(FLUSH_INTERVAL_MILLISECONDS);
+
+    expect(sink.save).not.toHaveBeenCalled();
+
+    await usageRecorder.flush();
+
+    expect(sink.save).toHaveBeenCalledWith({});
+  });
+
+  it('reports flush errors', async () => {
+    const error = new Error('Disk full.');
+    const onFlushError = jest.fn();
+
+    usageRecorder = createUsageRecorder({
+      flushInterval: FLUSH_INTERVAL_MILLISECONDS,
+      onFlushError,
+      sink: {
+        save: (): void => {
+          throw error;
+        },
+      },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    await wait(FLUSH_INTERVAL_MILLISECONDS * 1.5);
+
+    expect(onFlushError).toHaveBeenCalledWith(error);
+    await expect(usageRecorder.flush()).rejects.toBe(error);
+    await expect(usageRecorder.close()).rejects.toBe(error);
+
+    usageRecorder = null;
+  });
+
+  it('does not overwrite the saved usage when it fails to load', async () => {
+    const error = new Error('Permission denied.');
+    const onFlushError = jest.fn();
+    const save = jest.fn();
+
+    usageRecorder = createUsageRecorder({
+      onFlushError,
+      sink: {
+        load: (): never => {
+          throw error;
+        },
+        save,
+      },
+    });
+
+    await expect(usageRecorder.getUsage()).rejects.toBe(error);
+    await expect(usageRecorder.flush()).rejects.toBe(error);
+    expect(onFlushError).toHaveBeenCalledWith(error);
+    expect(save).not.toHaveBeenCalled();
+
+    usageRecorder = null;
+  });
+
+  it('validates its options', () => {
+    expect(() => createUsageRecorder({ flushInterval: -1 })).toThrow(
+      'The flushInterval option of createUsageRecorder must be a non-negative number.',
+    );
+    // @ts-expect-error Invalid usage
+    expect(() => createUsageRecorder({ sink: {} })).toThrow(
+      'The sink option of createUsageRecorder must have a save method.',
+    );
+  });
+});
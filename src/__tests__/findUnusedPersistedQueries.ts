@@ -0,0 +1,43 @@
+import { findUnusedPersistedQueries } from '..';
+
+const NOW_MILLISECONDS = 10000;
+
+describe('findUnusedPersistedQueries', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(NOW_MILLISECONDS);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lists the query IDs that were not used within the window', () => {
+    const queries: [string, string][] = [
+      ['greetGuest', '{ greet }'],
+      ['greetUser', 'query ($name: String) { greet(name: $name) }'],
+      ['like', 'mutation { like }'],
+      ['toString', '{ greet }'],
+    ];
+    const usage = {
+      greetGuest: { calls: 3, firstSeen: 1000, lastSeen: 9000 },
+      greetUser: { calls: 1, firstSeen: 1000, lastSeen: 4000 },
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(findUnusedPersistedQueries(queries, usage, 5000)).toStrictEqual([
+      'greetUser',
+      'like',
+      'toString',
+    ]);
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(findUnusedPersistedQueries(queries, usage, 6000)).toStrictEqual(['like', 'toString']);
+  });
+
+  it('validates the window', () => {
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    expect(() => findUnusedPersistedQueries([], {}, -1)).toThrow(
+      'The window passed to findUnusedPersistedQueries must be a non-negative number.',
+    );
+  });
+});
@@ -1,7 +1,16 @@
+import { context as otelContext, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import type { ReadableSpan } from '@opentelemetry/tracing';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/tracing';
 import bodyParser from 'body-parser';
 import connect from 'connect';
 import express from 'express';
 import { graphqlHTTP } from 'express-graphql';
+import type { GraphQLFormattedError } from 'graphql';
 import {
   GraphQLBoolean,
   GraphQLNonNull,
@@ -12,20 +21,35 @@ import {
 import multer from 'multer';
 import type { Server as Restify } from 'restify';
 import request from 'supertest';
-import { deflateSync, gzipSync } from 'zlib';
-import { persistedQueries } from '..';
+import { createHash } from 'crypto';
+import { isHttpError } from 'http-errors';
+import { brotliCompressSync, createGunzip, deflateSync, gzipSync } from 'zlib';
+import {
+  createCachedQueryStore,
+  createFunctionQueryStore,
+  createMapQueryStore,
+  createMetrics,
+  createObjectQueryStore,
+  createUsageRecorder,
+  persistedQueries,
+  resolveClientNamespace,
+  withETag,
+} from '..';
 import { assert } from '../assert';
 import {
+  CONTENT_TYPE_GRAPHQL,
   CONTENT_TYPE_JSON,
   HTTP_STATUS_BAD_REQUEST,
   HTTP_STATUS_INTERNAL_SERVER_ERROR,
+  HTTP_STATUS_METHOD_NOT_ALLOWED,
+  HTTP_STATUS_NOT_MODIFIED,
   HTTP_STATUS_OK,
   HTTP_STATUS_PAYLOAD_TOO_LARGE,
   HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE,
   UNIT_KIB,
 } from '../constants';
 import { isString } from '../typeguards';
-import type { Middleware, Request } from '../types';
+import type { Maybe, Middleware, Request, Response } from '../types';
 
 type MulterFile = Express.Multer.File;
 
@@ -33,6 +57,16 @@ interface RequestWithMulterFile extends Request {
   file: MulterFile;
 }
 
+interface RequestWithMulterFiles extends Request {
+  files: MulterFile[];
+}
+
+const spanExporter = new InMemorySpanExporter();
+const tracerProvider = new BasicTracerProvider();
+
+tracerProvider.addSpanProcessor(new SimpleSpanProcessor(spanExporter));
+tracerProvider.register({ contextManager: new AsyncHooksContextManager().enable() });
+
 const queryType = new GraphQLObjectType({
   name: 'Query',
   fields: {
@@ -87,6 +121,7 @@ const queryMap = {
 };
 
 interface SearchParams {
+  extensions?: Record<string, unknown> | string;
   operationName?: string;
   query?: string;
   queryId?: string;
@@ -94,6 +129,10 @@ interface SearchParams {
   variables?: Record<string, unknown>;
 }
 
+function sha256(query: string): string {
+  return createHash('sha256').update(query).digest('hex');
+}
+
 function searchString(params: SearchParams): string {
   return new URLSearchParams(
     Object.entries(params).map(([key, value]) => [
@@ -147,6 +186,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
             message:
               'The options passed to persistedQueries must be an object or a promise that resolves with an object.',
           },
@@ -205,7 +245,9 @@ function runTests(createApp: () => App): void {
 
       expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
       expect(response.body).toStrictEqual({
-        errors: [{ message: 'Failed to resolve options.' }],
+        errors: [
+          { extensions: { code: 'INTERNAL_SERVER_ERROR' }, message: 'Failed to resolve options.' },
+        ],
       });
 
       expect(console.error).toHaveBeenCalledWith(new Error('Failed to resolve options.'));
@@ -714,6 +756,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
             message: 'The provided query ID "toString" did not match any persisted query.',
           },
         ],
@@ -774,6 +817,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
             message:
               'options.queryMap must be an object, a function, or a promise that resolves with an object or function.',
           },
@@ -841,6 +885,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
             message: 'The provided query ID "greetGuest" did not match any persisted query.',
           },
         ],
@@ -858,6 +903,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
             message: 'The provided query ID "greetGuest" did not match any persisted query.',
           },
         ],
@@ -885,6 +931,120 @@ function runTests(createApp: () => App): void {
       });
     });
 
+    it('can be a store', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          queryMap: {
+            get: (queryId: string) => (queryId === 'greetGuest' ? '{ greet }' : null),
+          },
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('can be a Map', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: new Map(Object.entries(queryMap)) }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('can be a store created from an object', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: createObjectQueryStore(queryMap) }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+      const notFoundResponse = await request(app).get(endpoint({ queryId: 'toString' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(notFoundResponse.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    });
+
+    it('can be a store created from a Map', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: createMapQueryStore(new Map(Object.entries(queryMap))) }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+    });
+
+    it('can be a store created from a function', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          queryMap: createFunctionQueryStore(async (queryId) =>
+            Promise.resolve(queryId === 'greetGuest' ? '{ greet }' : null),
+          ),
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+    });
+
+    it('can be a cached store', async () => {
+      const app = createApp();
+      const queryMapFn = jest.fn((queryId: string) =>
+        queryId === 'greetGuest' ? '{ greet }' : null,
+      );
+      const queryStore = createCachedQueryStore(createFunctionQueryStore(queryMapFn));
+
+      app.get(endpoint(), persistedQueries({ queryMap: queryStore }), graphqlHTTP({ schema }));
+
+      await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(queryMapFn).toHaveBeenCalledTimes(1);
+      expect(queryStore.getStats()).toStrictEqual({ hits: 1, misses: 1, size: 1 });
+    });
+
     it('can be a promise that resolves with a function', async () => {
       const app = createApp();
 
@@ -947,6 +1107,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
             message: 'The provided query ID "greetGuest" did not match any persisted query.',
           },
         ],
@@ -970,12 +1131,66 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
             message: 'The provided query ID "greetGuest" did not match any persisted query.',
           },
         ],
       });
     });
 
+    it('receives the context of the request when it is a function', async () => {
+      const app = createApp();
+      const tenantQueryMaps: Record<string, Record<string, string>> = {
+        acme: { greetTenant: '{ greet(name: "Acme") }' },
+        globex: { greetTenant: '{ greet(name: "Globex") }' },
+      };
+
+      app.post(
+        endpoint(),
+        persistedQueries({
+          queryIdKey: 'id',
+          queryMap: (queryId, context) => {
+            const tenant = context?.searchParams.get('tenant') ?? context?.req.headers['x-tenant'];
+
+            expect(context?.queryIdKey).toBe('id');
+            expect(context?.body).toStrictEqual({ id: queryId });
+
+            return isString(tenant) ? tenantQueryMaps[tenant]?.[queryId] : null;
+          },
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const responses = await Promise.all([
+        request(app).post(endpoint()).set('x-tenant', 'acme').send({ id: 'greetTenant' }),
+        request(app).post('/graphql?tenant=globex').send({ id: 'greetTenant' }),
+        request(app).post(endpoint()).send({ id: 'greetTenant' }),
+      ]);
+
+      expect(responses[0].body).toStrictEqual({ data: { greet: 'Hello Acme!' } });
+      expect(responses[1].body).toStrictEqual({ data: { greet: 'Hello Globex!' } });
+      expect(responses[2].status).toBe(HTTP_STATUS_BAD_REQUEST);
+    });
+
+    it('passes the context of the request to a store', async () => {
+      const app = createApp();
+      const get = jest.fn(() => '{ greet }');
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: createCachedQueryStore({ get }) }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(get).toHaveBeenCalledWith(
+        'greetGuest',
+        expect.objectContaining({ queryIdKey: 'queryId', req: expect.anything() as unknown }),
+      );
+    });
+
     it('cannot be a promise that resolves with null', async () => {
       const app = createApp();
       const spy = jest.spyOn(console, 'error').mockImplementation();
@@ -994,6 +1209,7 @@ function runTests(createApp: () => App): void {
       expect(response.body).toStrictEqual({
         errors: [
           {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
             message:
               'options.queryMap must be an object, a function, or a promise that resolves with an object or function.',
           },
@@ -1024,7 +1240,12 @@ function runTests(createApp: () => App): void {
 
       expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
       expect(response.body).toStrictEqual({
-        errors: [{ message: 'Failed to resolve options.queryMap.' }],
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'Failed to resolve options.queryMap.',
+          },
+        ],
       });
 
       expect(console.error).toHaveBeenCalledWith(new Error('Failed to resolve options.queryMap.'));
@@ -1097,6 +1318,7 @@ function runTests(createApp: () => App): void {
         expect(response.body).toStrictEqual({
           errors: [
             {
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
               message:
                 'The provided query ID "nonExistingQueryId" did not match any persisted query.',
             },
@@ -1117,6 +1339,7 @@ function runTests(createApp: () => App): void {
         expect(response.body).toStrictEqual({
           errors: [
             {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
               message: 'Search params have "query" but only persisted queries are allowed.',
             },
           ],
@@ -1134,6 +1357,7 @@ function runTests(createApp: () => App): void {
         expect(response.body).toStrictEqual({
           errors: [
             {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
               message: 'Request body has "query" but only persisted queries are allowed.',
             },
           ],
@@ -1151,6 +1375,7 @@ function runTests(createApp: () => App): void {
         expect(response.body).toStrictEqual({
           errors: [
             {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
               message:
                 'Request must provide a query ID under "queryId" key either in search params or request body.',
             },
@@ -1169,6 +1394,7 @@ function runTests(createApp: () => App): void {
         expect(response.body).toStrictEqual({
           errors: [
             {
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
               message:
                 'The provided query ID "nonExistingQueryId" did not match any persisted query.',
             },
@@ -1177,6 +1403,79 @@ function runTests(createApp: () => App): void {
       });
     });
 
+    describe('when set to a function', () => {
+      const isPublic = async (req: Request): Promise<boolean> =>
+        Promise.resolve(req.headers['x-admin'] !== 'true');
+
+      it('allows non-persisted queries for requests for which it returns false', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ queryMap, strict: isPublic }),
+          graphqlHTTP({ schema }),
+        );
+
+        const responses = await Promise.all([
+          request(app)
+            .get(endpoint({ query: '{ greet }' }))
+            .set('x-admin', 'true'),
+          request(app).get(endpoint({ query: '{ greet }' })),
+        ]);
+
+        expect(responses[0].status).toBe(HTTP_STATUS_OK);
+        expect(responses[0].body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+        expect(responses[1].status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(responses[1].body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+              message: 'Search params have "query" but only persisted queries are allowed.',
+            },
+          ],
+        });
+      });
+
+      it('exposes the decision to downstream middleware', async () => {
+        const app = createApp();
+
+        app.get(endpoint(), persistedQueries({ queryMap, strict: isPublic }), (req, res) => {
+          res.setHeader('Content-Type', CONTENT_TYPE_JSON);
+          res.end(JSON.stringify(req.persistedQuery));
+        });
+
+        const responses = await Promise.all([
+          request(app)
+            .get(endpoint({ queryId: 'greetGuest' }))
+            .set('x-admin', 'true'),
+          request(app).get(endpoint({ queryId: 'greetGuest' })),
+        ]);
+
+        expect(responses[0].body).toStrictEqual({ strict: false });
+        expect(responses[1].body).toStrictEqual({ strict: true });
+      });
+
+      it('only warns about persisted queries that are invalid against the schema', async () => {
+        const app = createApp();
+        const spy = jest.spyOn(console, 'warn').mockImplementation();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ queryMap, schema, strict: isPublic }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(console.warn).toHaveBeenCalledWith(
+          expect.stringContaining('Some persisted queries are invalid against the schema'),
+        );
+
+        spy.mockRestore();
+      });
+    });
+
     it('defaults to false', async () => {
       const app = createApp();
 
@@ -1193,317 +1492,3962 @@ function runTests(createApp: () => App): void {
     });
   });
 
-  describe('Body parsing', () => {
-    it('ignores a body with an unsupported Content-Type', async () => {
-      const app = createApp();
+  describe('"apq" option', () => {
+    const greetHash = sha256('{ greet }');
+    const apqQueryMap = { [greetHash]: '{ greet }' };
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+    function persistedQueryExtension(hash: string): Record<string, unknown> {
+      return { persistedQuery: { version: 1, sha256Hash: hash } };
+    }
 
-      const response = await request(app)
-        .post(endpoint())
-        .set('Content-Type', 'application/graphql; charset=utf-8')
-        .send('{ greet }');
+    describe('when set to true', () => {
+      it('queries a persisted query by its hash in search params', async () => {
+        const app = createApp();
 
-      expect(response.status).toBe(HTTP_STATUS_OK);
-      expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello guest!',
-        },
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(
+          endpoint({ extensions: persistedQueryExtension(greetHash) }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
       });
-    });
 
-    it('errors when JSON body is not an object', async () => {
-      const app = createApp();
+      it('queries a persisted query by its hash in request body', async () => {
+        const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+        app.post(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
 
-      const response = await request(app).post(endpoint()).send([]);
+        const response = await request(app)
+          .post(endpoint())
+          .send({ extensions: persistedQueryExtension(greetHash) });
 
-      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
-      expect(response.body).toStrictEqual({
-        errors: [
-          {
-            message: 'Request body is not a valid JSON object.',
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
           },
-        ],
+        });
       });
-    });
 
-    it('errors when JSON body is an incomplete object', async () => {
-      const app = createApp();
+      it('queries a persisted query by its hash in form-urlencoded body', async () => {
+        const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+        app.post(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
 
-      const response = await request(app)
-        .post(endpoint())
-        .type('json')
-        .send('{ "queryId": "greetGuest"');
+        const response = await request(app)
+          .post(endpoint())
+          .send(searchString({ extensions: persistedQueryExtension(greetHash) }));
 
-      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
-      expect(response.body).toStrictEqual({
-        errors: [
-          {
-            message: 'Request body is not a valid JSON object.',
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
           },
-        ],
+        });
       });
-    });
 
-    it('errors when the body has an unsupported charset', async () => {
-      const app = createApp();
+      it('prefers the query ID under "queryIdKey" to the hash', async () => {
+        const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+        app.get(endpoint(), persistedQueries({ apq: true, queryMap }), graphqlHTTP({ schema }));
 
-      const response = await request(app)
-        .post(endpoint())
-        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=ascii`)
-        .send(JSON.stringify({ queryId: 'greetGuest' }));
+        const response = await request(app).get(
+          endpoint({ queryId: 'greetJohn', extensions: persistedQueryExtension(greetHash) }),
+        );
 
-      expect(response.status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
-      expect(response.body).toStrictEqual({
-        errors: [
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello John!',
+          },
+        });
+      });
+
+      it('returns PersistedQueryNotFound when the hash does not match any persisted query', async () => {
+        const app = createApp();
+
+        app.get(endpoint(), persistedQueries({ apq: true, queryMap }), graphqlHTTP({ schema }));
+
+        const response = await request(app).get(
+          endpoint({ extensions: persistedQueryExtension(greetHash) }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              message: 'PersistedQueryNotFound',
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            },
+          ],
+        });
+      });
+
+      it('executes the provided query when the hash does not match any persisted query', async () => {
+        const app = createApp();
+
+        app.post(endpoint(), persistedQueries({ apq: true, queryMap }), graphqlHTTP({ schema }));
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ query: '{ greet }', extensions: persistedQueryExtension(greetHash) });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+      });
+
+      it('returns PersistedQueryNotFound in strict mode when the hash does not match any persisted query', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap, strict: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(
+          endpoint({ extensions: persistedQueryExtension(greetHash) }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              message: 'PersistedQueryNotFound',
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            },
+          ],
+        });
+      });
+
+      it('errors when the persisted query version is not supported', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(
+          endpoint({ extensions: { persistedQuery: { version: 2, sha256Hash: greetHash } } }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'INVALID_PERSISTED_QUERY_EXTENSION' },
+              message: 'Unsupported persisted query version.',
+            },
+          ],
+        });
+      });
+
+      it('errors when the hash is missing', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(
+          endpoint({ extensions: { persistedQuery: { version: 1 } } }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'INVALID_PERSISTED_QUERY_EXTENSION' },
+              message: 'The "persistedQuery" extension must provide a "sha256Hash" string.',
+            },
+          ],
+        });
+      });
+
+      it('ignores extensions in search params that are not valid JSON', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(endpoint({ extensions: '{' }));
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [{ message: 'Must provide query string.' }],
+        });
+      });
+    });
+
+    describe('when set to false', () => {
+      it('returns PersistedQueryNotSupported when only a hash is provided', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: false, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(
+          endpoint({ extensions: persistedQueryExtension(greetHash) }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              message: 'PersistedQueryNotSupported',
+              extensions: { code: 'PERSISTED_QUERY_NOT_SUPPORTED' },
+            },
+          ],
+        });
+      });
+
+      it('executes the provided query when both the hash and the query are provided', async () => {
+        const app = createApp();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ apq: false, queryMap: apqQueryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ query: '{ greet }', extensions: persistedQueryExtension(greetHash) });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+      });
+    });
+
+    it('defaults to false', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap: apqQueryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).get(
+        endpoint({ extensions: persistedQueryExtension(greetHash) }),
+      );
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            message: 'PersistedQueryNotSupported',
+            extensions: { code: 'PERSISTED_QUERY_NOT_SUPPORTED' },
+          },
+        ],
+      });
+    });
+  });
+
+  describe('"autoRegister" option', () => {
+    const greetHash = sha256('{ greet }');
+
+    describe('when set to true', () => {
+      it('registers the query of an unknown query ID', async () => {
+        const app = createApp();
+        const queryStore = new Map<string, string>();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap: queryStore }),
+          graphqlHTTP({ schema }),
+        );
+
+        const registrationResponse = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet }' });
+
+        expect(registrationResponse.status).toBe(HTTP_STATUS_OK);
+        expect(registrationResponse.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+        expect(queryStore.get(greetHash)).toBe('{ greet }');
+
+        const response = await request(app).post(endpoint()).send({ queryId: greetHash });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+      });
+
+      it('registers queries with the Apollo Automatic Persisted Queries protocol', async () => {
+        const app = createApp();
+        const hash = sha256('{ greet }');
+        const extensions = { persistedQuery: { version: 1, sha256Hash: hash } };
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, autoRegister: true, queryMap: new Map<string, string>() }),
+          graphqlHTTP({ schema }),
+        );
+
+        const notFoundResponse = await request(app).get(endpoint({ extensions }));
+
+        expect(notFoundResponse.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(notFoundResponse.body).toStrictEqual({
+          errors: [
+            {
+              message: 'PersistedQueryNotFound',
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            },
+          ],
+        });
+
+        const registrationResponse = await request(app).get(
+          endpoint({ query: '{ greet }', extensions }),
+        );
+
+        expect(registrationResponse.status).toBe(HTTP_STATUS_OK);
+
+        const response = await request(app).get(endpoint({ extensions }));
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+      });
+
+      it('waits for an asynchronous store to persist the query', async () => {
+        const app = createApp();
+        const queries = new Map<string, string>();
+
+        app.post(
+          endpoint(),
+          persistedQueries({
+            autoRegister: true,
+            queryMap: {
+              get: async (queryId: string): Promise<Maybe<string>> =>
+                Promise.resolve(queries.get(queryId)),
+              set: async (queryId: string, query: string): Promise<void> => {
+                await Promise.resolve();
+
+                queries.set(queryId, query);
+              },
+            },
+          }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet }' });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(queries.get(greetHash)).toBe('{ greet }');
+      });
+
+      it('does not overwrite an existing persisted query', async () => {
+        const app = createApp();
+        const queryStore = new Map([[greetHash, '{ greet(name: "John") }']]);
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap: queryStore }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet }' });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello John!',
+          },
+        });
+        expect(queryStore.get(greetHash)).toBe('{ greet(name: "John") }');
+      });
+
+      it('does not register a query that cannot be parsed', async () => {
+        const app = createApp();
+        const queryStore = new Map<string, string>();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap: queryStore }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: sha256('{ greet'), query: '{ greet' });
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_INVALID' },
+              message: `The query provided for query ID "${sha256(
+                '{ greet',
+              )}" cannot be registered: Syntax Error: Expected Name, found <EOF>.`,
+            },
+          ],
+        });
+        expect(queryStore.has(sha256('{ greet'))).toBe(false);
+      });
+
+      it('does not register a query that does not hash to the query ID', async () => {
+        const app = createApp();
+        const queryStore = new Map<string, string>();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap: queryStore }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet(name: "John") }' });
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_HASH_MISMATCH' },
+              message: `The provided query does not hash to the provided query ID "${greetHash}".`,
+            },
+          ],
+        });
+        expect(queryStore.has(greetHash)).toBe(false);
+      });
+
+      it('errors when the query ID is unknown and no query is provided', async () => {
+        const app = createApp();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap: new Map<string, string>() }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).post(endpoint()).send({ queryId: greetHash });
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+              message: `The provided query ID "${greetHash}" did not match any persisted query.`,
+            },
+          ],
+        });
+      });
+
+      it('requires "queryMap" to be a store', async () => {
+        const app = createApp();
+        const spy = jest.spyOn(console, 'error').mockImplementation();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).post(endpoint()).send({ queryId: greetHash });
+
+        expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'INTERNAL_SERVER_ERROR' },
+              message:
+                'options.queryMap must be a store with "get" and "set" methods when options.autoRegister is true.',
+            },
+          ],
+        });
+        expect(console.error).toHaveBeenCalledWith(
+          new TypeError(
+            'options.queryMap must be a store with "get" and "set" methods when options.autoRegister is true.',
+          ),
+        );
+
+        spy.mockRestore();
+      });
+
+      it('is disabled when "strict" is true', async () => {
+        const app = createApp();
+        const queryStore = new Map<string, string>();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ autoRegister: true, queryMap: queryStore, strict: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet }' });
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+              message: 'Request body has "query" but only persisted queries are allowed.',
+            },
+          ],
+        });
+        expect(queryStore.has(greetHash)).toBe(false);
+      });
+
+      it('is enabled when "strict" is true if "allowAutoRegisterInStrictMode" is true', async () => {
+        const app = createApp();
+        const queryStore = new Map<string, string>();
+
+        app.post(
+          endpoint(),
+          persistedQueries({
+            allowAutoRegisterInStrictMode: true,
+            autoRegister: true,
+            queryMap: queryStore,
+            strict: true,
+          }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet }' });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+        expect(queryStore.get(greetHash)).toBe('{ greet }');
+      });
+
+      it('still requires a query ID in strict mode if "allowAutoRegisterInStrictMode" is true', async () => {
+        const app = createApp();
+
+        app.post(
+          endpoint(),
+          persistedQueries({
+            allowAutoRegisterInStrictMode: true,
+            autoRegister: true,
+            queryMap: new Map<string, string>(),
+            strict: true,
+          }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).post(endpoint()).send({ query: '{ greet }' });
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+              message: 'Request body has "query" but only persisted queries are allowed.',
+            },
+          ],
+        });
+      });
+    });
+
+    it('defaults to false', async () => {
+      const app = createApp();
+      const queryStore = new Map<string, string>();
+
+      app.post(endpoint(), persistedQueries({ queryMap: queryStore }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({ queryId: greetHash, query: '{ greet }' });
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            message: `The provided query ID "${greetHash}" did not match any persisted query.`,
+          },
+        ],
+      });
+      expect(queryStore.has(greetHash)).toBe(false);
+    });
+  });
+
+  describe('"verifyHash" option', () => {
+    const greetHash = sha256('{ greet }');
+
+    describe('when set to true', () => {
+      it('accepts a query that hashes to the query ID', async () => {
+        const app = createApp();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ queryMap: { [greetHash]: '{ greet }' }, verifyHash: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet }' });
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+      });
+
+      it('rejects a query that does not hash to the query ID', async () => {
+        const app = createApp();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ queryMap: { [greetHash]: '{ greet }' }, verifyHash: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send({ queryId: greetHash, query: '{ greet(name: "John") }' });
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_HASH_MISMATCH' },
+              message: `The provided query does not hash to the provided query ID "${greetHash}".`,
+            },
+          ],
+        });
+      });
+
+      it('rejects a query that does not hash to the Apollo persisted query hash', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ apq: true, queryMap, verifyHash: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(
+          endpoint({
+            query: '{ greet(name: "John") }',
+            extensions: { persistedQuery: { version: 1, sha256Hash: greetHash } },
+          }),
+        );
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_HASH_MISMATCH' },
+              message: `The provided query does not hash to the provided query ID "${greetHash}".`,
+            },
+          ],
+        });
+      });
+
+      it('does not require the query to be provided', async () => {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          persistedQueries({ queryMap, verifyHash: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({
+          data: {
+            greet: 'Hello guest!',
+          },
+        });
+      });
+    });
+
+    it('defaults to false', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({ queryId: 'greetJohn', query: '{ greet }' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello John!',
+        },
+      });
+    });
+  });
+
+  describe('"hashAlgorithm" option', () => {
+    it('can be the name of a hash algorithm', async () => {
+      const app = createApp();
+      const md5Hash = createHash('md5').update('{ greet }').digest('hex');
+
+      app.post(
+        endpoint(),
+        persistedQueries({
+          hashAlgorithm: 'md5',
+          queryMap: { [md5Hash]: '{ greet }' },
+          verifyHash: true,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({ queryId: md5Hash, query: '{ greet }' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('can be a function that returns a promise', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({
+          hashAlgorithm: async (query) => Promise.resolve(`hash:${query}`),
+          queryMap: { 'hash:{ greet }': '{ greet }' },
+          verifyHash: true,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({ queryId: 'hash:{ greet }', query: '{ greet }' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('must be supported by crypto.createHash', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ hashAlgorithm: 'unknown', queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message:
+              'options.hashAlgorithm must be a function or the name of a hash algorithm supported by crypto.createHash.',
+          },
+        ],
+      });
+      expect(console.error).toHaveBeenCalledWith(
+        new TypeError(
+          'options.hashAlgorithm must be a function or the name of a hash algorithm supported by crypto.createHash.',
+        ),
+      );
+
+      spy.mockRestore();
+    });
+
+    it('defaults to sha256', async () => {
+      const app = createApp();
+      const greetHash = sha256('{ greet }');
+
+      app.post(
+        endpoint(),
+        persistedQueries({ queryMap: { [greetHash]: '{ greet }' }, verifyHash: true }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({ queryId: greetHash, query: '{ greet }' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+    });
+  });
+
+  describe('"schema" option', () => {
+    const invalidQueriesMessage =
+      'Some persisted queries are invalid against the schema:\n- "invalid": Cannot query field "invalidField" on type "Query".';
+
+    it('accepts persisted queries that are valid against the schema', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'warn').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: { greetGuest: '{ greet }' }, schema, strict: true }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(console.warn).not.toHaveBeenCalled();
+
+      spy.mockRestore();
+    });
+
+    it('warns about persisted queries that are invalid against the schema', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'warn').mockImplementation();
+
+      app.get(endpoint(), persistedQueries({ queryMap, schema }), graphqlHTTP({ schema }));
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(console.warn).toHaveBeenCalledWith(invalidQueriesMessage);
+
+      spy.mockRestore();
+    });
+
+    it('reports persisted queries that are invalid against the schema to onInvalidQueries', async () => {
+      const app = createApp();
+      const onInvalidQueries = jest.fn();
+      const spy = jest.spyOn(console, 'warn').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ onInvalidQueries, queryMap, schema }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(onInvalidQueries).toHaveBeenCalledWith(invalidQueriesMessage);
+      expect(console.warn).not.toHaveBeenCalled();
+
+      spy.mockRestore();
+    });
+
+    it('validates the onInvalidQueries option', async () => {
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(
+        // @ts-expect-error Invalid usage
+        persistedQueries({ onInvalidQueries: 'warn', queryMap, schema }).ready(),
+      ).rejects.toThrow(new TypeError('options.onInvalidQueries must be a function.'));
+
+      spy.mockRestore();
+    });
+
+    it('fails when persisted queries are invalid against the schema in strict mode', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap, schema, strict: true }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          { extensions: { code: 'INTERNAL_SERVER_ERROR' }, message: 'Internal server error.' },
+        ],
+      });
+      expect(console.error).toHaveBeenCalledWith(new Error(invalidQueriesMessage));
+
+      spy.mockRestore();
+    });
+
+    it('rejects the ready promise when persisted queries are invalid in strict mode', async () => {
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(persistedQueries({ queryMap, schema, strict: true }).ready()).rejects.toThrow(
+        new Error(invalidQueriesMessage),
+      );
+
+      spy.mockRestore();
+    });
+
+    it('resolves the ready promise when persisted queries are valid', async () => {
+      await expect(
+        persistedQueries({ queryMap: { greetGuest: '{ greet }' }, schema, strict: true }).ready(),
+      ).resolves.toBeUndefined();
+    });
+
+    it('validates the persisted queries of a Map', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'warn').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: new Map(Object.entries(queryMap)), schema }),
+        graphqlHTTP({ schema }),
+      );
+
+      await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(console.warn).toHaveBeenCalledWith(invalidQueriesMessage);
+
+      spy.mockRestore();
+    });
+
+    it('requires the persisted queries to be enumerable', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ queryMap: () => '{ greet }', schema }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message:
+              'options.queryMap must be an object or a store with an "entries" method when options.schema is provided.',
+          },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+
+    it('must be a GraphQL schema', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ queryMap, schema: {} }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.schema must be a GraphQLSchema.',
+          },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('"namespaces" option', () => {
+    const namespaces = {
+      'ios@2.0': { queryMap: { greetGuest: '{ greet(name: "iOS 2.0") }' } },
+      'ios': { queryMap: { greetGuest: '{ greet(name: "iOS") }' }, fallback: false },
+      'android': {
+        queryMap: { greetGuest: '{ greet(name: "Android") }' },
+        fallback: 'ios',
+        strict: true,
+      },
+    };
+
+    it('uses the namespace of the client name and version', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ namespaces, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'greetGuest' }))
+        .set('apollographql-client-name', 'ios')
+        .set('apollographql-client-version', '2.0');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello iOS 2.0!' } });
+    });
+
+    it('uses the namespace of the client name when there is none for its version', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ namespaces, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'greetGuest' }))
+        .set('apollographql-client-name', 'ios')
+        .set('apollographql-client-version', '1.0');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello iOS!' } });
+    });
+
+    it('uses the top-level query map when the client does not match any namespace', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ namespaces, queryMap }), graphqlHTTP({ schema }));
+
+      const responses = await Promise.all([
+        request(app).get(endpoint({ queryId: 'greetGuest' })),
+        request(app)
+          .get(endpoint({ queryId: 'greetGuest' }))
+          .set('apollographql-client-name', 'web')
+          .set('apollographql-client-version', ''),
+      ]);
+
+      for (const response of responses) {
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+      }
+    });
+
+    it('falls back to the top-level query map by default', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ namespaces, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'greetJohn' }))
+        .set('apollographql-client-name', 'ios')
+        .set('apollographql-client-version', '2.0');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello John!' } });
+    });
+
+    it('does not fall back when the fallback is disabled', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ namespaces, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'greetJohn' }))
+        .set('apollographql-client-name', 'ios');
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            message: 'The provided query ID "greetJohn" did not match any persisted query.',
+          },
+        ],
+      });
+    });
+
+    it('falls back to another namespace', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          namespaces: {
+            ...namespaces,
+            android: { queryMap: { greetJohn: '{ greet(name: "John") }' }, fallback: 'ios' },
+          },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const responses = await Promise.all([
+        request(app)
+          .get(endpoint({ queryId: 'greetGuest' }))
+          .set('apollographql-client-name', 'android'),
+        request(app)
+          .get(endpoint({ queryId: 'greetWorld' }))
+          .set('apollographql-client-name', 'android'),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_OK);
+      expect(responses[0].body).toStrictEqual({ data: { greet: 'Hello iOS!' } });
+      expect(responses[1].status).toBe(HTTP_STATUS_BAD_REQUEST);
+    });
+
+    it('applies the strictness of the namespace', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ namespaces, queryMap }), graphqlHTTP({ schema }));
+
+      const responses = await Promise.all([
+        request(app).get(endpoint({ query: '{ greet }' })),
+        request(app)
+          .get(endpoint({ query: '{ greet }' }))
+          .set('apollographql-client-name', 'android'),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_OK);
+      expect(responses[1].status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(responses[1].body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+            message: 'Search params have "query" but only persisted queries are allowed.',
+          },
+        ],
+      });
+    });
+
+    it('inherits the top-level strictness', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ namespaces, queryMap, strict: true }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .get(endpoint({ query: '{ greet }' }))
+        .set('apollographql-client-name', 'ios');
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    });
+
+    it('accepts a custom namespace resolver', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          namespaces,
+          queryMap,
+          resolveNamespace: async (req) => {
+            const candidates =
+              req.headers['x-client'] === 'iphone'
+                ? ['ios@3.0', 'ios']
+                : resolveClientNamespace(req);
+
+            return Promise.resolve(req.headers['x-client'] === 'bot' ? null : candidates);
+          },
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const responses = await Promise.all([
+        request(app)
+          .get(endpoint({ queryId: 'greetGuest' }))
+          .set('x-client', 'iphone'),
+        request(app)
+          .get(endpoint({ queryId: 'greetGuest' }))
+          .set('apollographql-client-name', 'ios'),
+        request(app)
+          .get(endpoint({ queryId: 'greetGuest' }))
+          .set('apollographql-client-name', 'ios')
+          .set('x-client', 'bot'),
+      ]);
+
+      expect(responses[0].body).toStrictEqual({ data: { greet: 'Hello iOS!' } });
+      expect(responses[1].body).toStrictEqual({ data: { greet: 'Hello iOS!' } });
+      expect(responses[2].body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+    });
+
+    it('registers queries in the namespace of the request', async () => {
+      const app = createApp();
+      const iosQueryMap = new Map<string, string>();
+      const query = '{ greet(name: "Registered") }';
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          autoRegister: true,
+          namespaces: { ios: { queryMap: iosQueryMap } },
+          queryMap: new Map<string, string>(),
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .get(endpoint({ query, queryId: sha256(query) }))
+        .set('apollographql-client-name', 'ios');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(iosQueryMap.get(sha256(query))).toBe(query);
+    });
+
+    it('requires a writable query map of each namespace when auto-registering', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ autoRegister: true, namespaces, queryMap: new Map<string, string>() }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message:
+              'options.namespaces["ios@2.0"].queryMap must be a store with "get" and "set" methods when options.autoRegister is true.',
+          },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+
+    it('validates the persisted queries of each namespace against the schema', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'warn').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          namespaces: { ios: { queryMap: { invalid: queryMap.invalid } } },
+          queryMap: { greetGuest: queryMap.greetGuest },
+          schema,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(console.warn).toHaveBeenCalledWith(
+        'Some persisted queries of namespace "ios" are invalid against the schema:\n- "invalid": Cannot query field "invalidField" on type "Query".',
+      );
+
+      spy.mockRestore();
+    });
+
+    it.each([
+      ['ios', 'options.namespaces must be an object.'],
+      [{ ios: null }, 'options.namespaces["ios"] must be an object.'],
+      [
+        { ios: { queryMap: 'invalid' } },
+        'options.namespaces["ios"].queryMap must be an object, a function, or a promise that resolves with an object or function.',
+      ],
+      [
+        { ios: { queryMap, fallback: 'android' } },
+        'options.namespaces["ios"].fallback must be a boolean or the name of another namespace.',
+      ],
+      [
+        { ios: { queryMap, fallback: 'android' }, android: { queryMap, fallback: 'ios' } },
+        'The fallbacks of options.namespaces["ios"] form a cycle.',
+      ],
+    ])('validates the namespaces %j', async (invalidNamespaces, message) => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ namespaces: invalidNamespaces, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [{ extensions: { code: 'INTERNAL_SERVER_ERROR' }, message }],
+      });
+
+      spy.mockRestore();
+    });
+
+    it('requires the namespace resolver to be a function', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ namespaces, queryMap, resolveNamespace: 'ios' }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.resolveNamespace must be a function.',
+          },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('"batching" option', () => {
+    function echoBody(req: Request, res: Response): void {
+      res.setHeader('Content-Type', CONTENT_TYPE_JSON);
+      res.end(JSON.stringify(req.body));
+    }
+
+    it('resolves the query ID of each operation of a batch', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ batching: true, queryMap }), echoBody);
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([
+          { queryId: 'greetGuest' },
+          { queryId: 'greetName', variables: { name: 'John' } },
+          { query: '{ greet }' },
+        ]);
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual([
+        { queryId: 'greetGuest', query: queryMap.greetGuest },
+        { queryId: 'greetName', query: queryMap.greetName, variables: { name: 'John' } },
+        { query: '{ greet }' },
+      ]);
+    });
+
+    it('reports the errors of each operation of a batch', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ batching: true, queryMap }), echoBody);
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'nonExistingQueryId' }, 'greetGuest']);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual([
+        {
+          errors: [
+            {
+              extensions: { code: 'BATCH_OPERATION_NOT_EXECUTED' },
+              message:
+                'The operation was not executed because another operation in the batch failed.',
+            },
+          ],
+        },
+        {
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+              message:
+                'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+            },
+          ],
+        },
+        {
+          errors: [
+            {
+              extensions: { code: 'INVALID_REQUEST_BODY' },
+              message: 'Batched operation must be a JSON object.',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('passes on the resolved operations of a batch when "partialBatches" is true', async () => {
+      const app = createApp();
+      const onError = jest.fn();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, onError, partialBatches: true, queryMap }),
+        (req: Request, res: Response) => {
+          res.setHeader('Content-Type', CONTENT_TYPE_JSON);
+          res.end(JSON.stringify({ batchErrors: req.persistedQuery?.batchErrors, body: req.body }));
+        },
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'nonExistingQueryId' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        batchErrors: [
+          null,
+          {
+            errors: [
+              {
+                extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+                message:
+                  'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+              },
+            ],
+          },
+        ],
+        body: [{ query: queryMap.greetGuest, queryId: 'greetGuest' }, null],
+      });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }),
+        expect.anything(),
+      );
+    });
+
+    it('responds with the errors of each operation when every operation fails and "partialBatches" is true', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, partialBatches: true, queryMap }),
+        echoBody,
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'nonExistingQueryId' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual([
+        {
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+              message:
+                'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('applies the strict option to each operation of a batch', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ batching: true, queryMap, strict: true }), echoBody);
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ query: '{ greet }' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual([
+        {
+          errors: [
+            {
+              extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+              message: 'Request body has "query" but only persisted queries are allowed.',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('limits the size of a batch', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, maxBatchSize: 2, queryMap }),
+        echoBody,
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'greetGuest' }, { queryId: 'greetGuest' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'BATCH_TOO_LARGE' },
+            message: 'Batch size 3 exceeds the maximum of 2.',
+          },
+        ],
+      });
+    });
+
+    it('does not allow an empty batch', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ batching: true, queryMap }), echoBody);
+
+      const response = await request(app).post(endpoint()).send([]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'EMPTY_BATCH' },
+            message: 'Request body must not be an empty batch.',
+          },
+        ],
+      });
+    });
+
+    it('errors when the JSON body is invalid', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ batching: true, queryMap }), echoBody);
+
+      const response = await request(app).post(endpoint()).type('json').send('[{ "queryId"');
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INVALID_REQUEST_BODY' },
+            message: 'Request body is not a valid JSON object or array.',
+          },
+        ],
+      });
+    });
+
+    it('still accepts a single operation', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ batching: true, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).post(endpoint()).send({ queryId: 'greetGuest' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    it.each([0, 1.5, '10'])(
+      'requires maxBatchSize to be a positive integer',
+      async (maxBatchSize) => {
+        const app = createApp();
+        const spy = jest.spyOn(console, 'error').mockImplementation();
+
+        app.post(
+          endpoint(),
+          // @ts-expect-error Invalid usage
+          persistedQueries({ batching: true, maxBatchSize, queryMap }),
+          echoBody,
+        );
+
+        const response = await request(app)
+          .post(endpoint())
+          .send([{ queryId: 'greetGuest' }]);
+
+        expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'INTERNAL_SERVER_ERROR' },
+              message: 'options.maxBatchSize must be a positive integer.',
+            },
+          ],
+        });
+
+        spy.mockRestore();
+      },
+    );
+  });
+
+  describe('"allowedOperationTypes" option', () => {
+    const mixedQueryMap = {
+      greetOrLike: 'query GreetQuery { greet } mutation LikeMutation { like }',
+      like: queryMap.like,
+      syntaxError: '{ greet',
+    };
+
+    it('rejects persisted mutations in GET requests by default', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).get(endpoint({ queryId: 'like' }));
+
+      expect(response.status).toBe(HTTP_STATUS_METHOD_NOT_ALLOWED);
+      expect(response.get('Allow')).toBe('POST');
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'OPERATION_NOT_ALLOWED' },
+            message: 'Can only perform a mutation operation from a POST request.',
+          },
+        ],
+      });
+    });
+
+    it('determines the operation from the operation name', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap: mixedQueryMap }), graphqlHTTP({ schema }));
+
+      const responses = await Promise.all([
+        request(app).get(endpoint({ operationName: 'GreetQuery', queryId: 'greetOrLike' })),
+        request(app).get(endpoint({ operationName: 'LikeMutation', queryId: 'greetOrLike' })),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_OK);
+      expect(responses[0].body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+      expect(responses[1].status).toBe(HTTP_STATUS_METHOD_NOT_ALLOWED);
+    });
+
+    it('leaves documents with syntax errors to the GraphQL server', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap: mixedQueryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).get(endpoint({ queryId: 'syntaxError' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            locations: [{ column: 8, line: 1 }],
+            message: 'Syntax Error: Expected Name, found <EOF>.',
+          },
+        ],
+      });
+    });
+
+    it('configures the allowed operation types of each HTTP method', async () => {
+      const app = createApp();
+      const allowedOperationTypes = { get: ['query', 'mutation'], post: ['query'] } as const;
+
+      app.use(persistedQueries({ allowedOperationTypes, queryMap }));
+      app.get(endpoint(), graphqlHTTP({ schema }));
+      app.post(endpoint(), graphqlHTTP({ schema }));
+
+      const responses = await Promise.all([
+        request(app).post(endpoint()).send({ queryId: 'like' }),
+        request(app).post(endpoint()).send({ queryId: 'greetGuest' }),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_METHOD_NOT_ALLOWED);
+      expect(responses[0].get('Allow')).toBe('GET');
+      expect(responses[0].body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'OPERATION_NOT_ALLOWED' },
+            message: 'Can only perform a mutation operation from a GET request.',
+          },
+        ],
+      });
+      expect(responses[1].status).toBe(HTTP_STATUS_OK);
+    });
+
+    it('rejects operation types that no HTTP method allows', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ allowedOperationTypes: { post: ['query'] }, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).post(endpoint()).send({ queryId: 'like' });
+
+      expect(response.status).toBe(HTTP_STATUS_METHOD_NOT_ALLOWED);
+      expect(response.get('Allow')).toBe('');
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'OPERATION_NOT_ALLOWED' },
+            message: 'Cannot perform a mutation operation.',
+          },
+        ],
+      });
+    });
+
+    it('applies to each operation of a batch', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({
+          allowedOperationTypes: { post: ['query'], put: ['mutation'] },
+          batching: true,
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'like' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_METHOD_NOT_ALLOWED);
+      expect(response.get('Allow')).toBe('PUT');
+      expect(response.body).toStrictEqual([
+        {
+          errors: [
+            {
+              extensions: { code: 'OPERATION_NOT_ALLOWED' },
+              message: 'Can only perform a mutation operation from a PUT request.',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it.each([
+      [
+        'GET',
+        'options.allowedOperationTypes must be an object mapping HTTP methods to arrays of operation types.',
+      ],
+      [
+        { get: ['query', 'fragment'] },
+        'options.allowedOperationTypes.get must be an array of "query", "mutation", or "subscription".',
+      ],
+    ])('validates the allowed operation types %j', async (allowedOperationTypes, message) => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ allowedOperationTypes, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [{ extensions: { code: 'INTERNAL_SERVER_ERROR' }, message }],
+      });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('"cacheControl" option', () => {
+    const ETAG_PATTERN = /^W\/"[0-9a-f]{40}"$/u;
+
+    it('emits caching headers for persisted GET queries', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ cacheControl: true, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.get('Cache-Control')).toBe('public, max-age=0');
+      expect(response.get('ETag')).toMatch(ETAG_PATTERN);
+      expect(response.get('Vary')).toBeUndefined();
+    });
+
+    it('uses the configured cache policy', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          cacheControl: {
+            etag: false,
+            maxAge: 60,
+            scope: 'private',
+            staleWhileRevalidate: 30,
+            vary: ['Authorization'],
+          },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.get('Cache-Control')).toBe('private, max-age=60, stale-while-revalidate=30');
+      expect(response.get('ETag')).not.toStrictEqual(expect.stringMatching(ETAG_PATTERN));
+      expect(response.get('Vary')).toBe('Authorization');
+    });
+
+    it('appends to the Vary header set by a previous middleware', async () => {
+      async function getVary(previousVary: string[] | string): Promise<string> {
+        const app = createApp();
+
+        app.get(
+          endpoint(),
+          (_req: Request, res: Response, next: () => void) => {
+            res.setHeader('Vary', previousVary);
+            next();
+          },
+          persistedQueries({
+            cacheControl: { maxAge: 60, vary: ['Authorization', 'Origin'] },
+            queryMap,
+          }),
+          graphqlHTTP({ schema }),
+        );
+
+        return (await request(app).get(endpoint({ queryId: 'greetGuest' }))).get('Vary');
+      }
+
+      expect(await getVary('Origin')).toBe('Origin, Authorization');
+      expect(await getVary(['origin', 'Accept'])).toBe('origin, Accept, Authorization');
+      expect(await getVary('*')).toBe('*');
+    });
+
+    it('uses the cache policy of the query map entry', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          cacheControl: { maxAge: 60 },
+          queryMap: {
+            greetGuest: { cachePolicy: { maxAge: 300 }, query: '{ greet }' },
+            greetJohn: { query: '{ greet(name: "John") }' },
+          },
+          schema,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const responses = await Promise.all([
+        request(app).get(endpoint({ queryId: 'greetGuest' })),
+        request(app).get(endpoint({ queryId: 'greetJohn' })),
+      ]);
+
+      expect(responses[0].body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+      expect(responses[0].get('Cache-Control')).toBe('public, max-age=300');
+      expect(responses[1].body).toStrictEqual({ data: { greet: 'Hello John!' } });
+      expect(responses[1].get('Cache-Control')).toBe('public, max-age=60');
+    });
+
+    it('derives the ETag from the query ID and variables', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ cacheControl: true, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const responses = await Promise.all([
+        request(app).get(endpoint({ queryId: 'greetName', variables: { name: 'John' } })),
+        request(app).get(endpoint({ queryId: 'greetName', variables: { name: 'John' } })),
+        request(app).get(endpoint({ queryId: 'greetName', variables: { name: 'Jane' } })),
+      ]);
+
+      expect(responses[0].get('ETag')).toBe(responses[1].get('ETag'));
+      expect(responses[0].get('ETag')).not.toBe(responses[2].get('ETag'));
+    });
+
+    it('emits no-store for mutations', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          allowedOperationTypes: { get: ['query', 'mutation'] },
+          cacheControl: true,
+          queryMap,
+        }),
+        (_req, res) => {
+          res.end();
+        },
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'like' }));
+
+      expect(response.get('Cache-Control')).toBe('no-store');
+      expect(response.get('ETag')).toBeUndefined();
+    });
+
+    it('does not emit caching headers for error responses', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ cacheControl: true, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'invalid' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.get('Cache-Control')).toBeUndefined();
+      expect(response.get('ETag')).not.toStrictEqual(expect.stringMatching(ETAG_PATTERN));
+    });
+
+    it('emits no-store when the operation cannot be determined', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ cacheControl: true, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(
+        endpoint({ operationName: 'UnknownQuery', queryId: 'greetGuest' }),
+      );
+
+      expect(response.get('Cache-Control')).toBe('no-store');
+    });
+
+    it('does not emit caching headers for POST requests or non-persisted queries', async () => {
+      const app = createApp();
+
+      app.use(persistedQueries({ cacheControl: true, queryMap }));
+      app.get(endpoint(), graphqlHTTP({ schema }));
+      app.post(endpoint(), graphqlHTTP({ schema }));
+
+      const responses = await Promise.all([
+        request(app).post(endpoint()).send({ queryId: 'greetGuest' }),
+        request(app).get(endpoint({ query: '{ greet }' })),
+      ]);
+
+      for (const response of responses) {
+        expect(response.status).toBe(HTTP_STATUS_OK);
+        expect(response.get('Cache-Control')).toBeUndefined();
+      }
+    });
+
+    it('varies by the client name and version when using namespaces', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          cacheControl: { vary: ['Accept', 'apollographql-client-name'] },
+          namespaces: { ios: { queryMap } },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.get('Vary')).toBe(
+        'Accept, apollographql-client-name, apollographql-client-version',
+      );
+    });
+
+    it('ignores query map entries without query text', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          queryMap: {
+            // @ts-expect-error Invalid usage
+            greetGuest: { cachePolicy: { maxAge: 60 } },
+            greetJohn: null,
+          },
+          schema,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+    });
+
+    it('rejects an invalid cache policy of a query map entry', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          cacheControl: true,
+          // @ts-expect-error Invalid usage
+          queryMap: { greetGuest: { cachePolicy: 'forever', query: '{ greet }' } },
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'The cachePolicy of query ID "greetGuest" must be an object.',
+          },
+        ],
+      });
+    });
+
+    it.each([
+      ['forever', 'options.cacheControl must be a boolean or an object.'],
+      [{ maxAge: -1 }, 'options.cacheControl.maxAge must be a non-negative integer.'],
+      [{ scope: 'shared' }, 'options.cacheControl.scope must be "private" or "public".'],
+      [
+        { staleWhileRevalidate: 1.5 },
+        'options.cacheControl.staleWhileRevalidate must be a non-negative integer.',
+      ],
+      [{ vary: 'Accept' }, 'options.cacheControl.vary must be an array of header names.'],
+    ])('validates the cache control options %j', async (cacheControl, message) => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ cacheControl, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [{ extensions: { code: 'INTERNAL_SERVER_ERROR' }, message }],
+      });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('withETag', () => {
+    const body = JSON.stringify({ data: { greet: 'Hello guest!' } });
+    const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+
+    it('sets an ETag computed over the response body', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap }), withETag(graphqlHTTP({ schema })));
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.get('ETag')).toBe(etag);
+      expect(response.text).toBe(body);
+    });
+
+    it.each([etag, `W/${etag}`, `"other", ${etag}`])(
+      'responds with 304 Not Modified when If-None-Match is %s',
+      async (ifNoneMatch) => {
+        const app = createApp();
+
+        app.get(endpoint(), persistedQueries({ queryMap }), withETag(graphqlHTTP({ schema })));
+
+        const response = await request(app)
+          .get(endpoint({ queryId: 'greetGuest' }))
+          .set('If-None-Match', ifNoneMatch);
+
+        expect(response.status).toBe(HTTP_STATUS_NOT_MODIFIED);
+        expect(response.get('ETag')).toBe(etag);
+        expect(response.get('Content-Type')).toBeUndefined();
+        expect(response.text).toBe('');
+      },
+    );
+
+    it('responds with the body when If-None-Match does not match', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap }), withETag(graphqlHTTP({ schema })));
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'greetGuest' }))
+        .set('If-None-Match', '"other"');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.get('ETag')).toBe(etag);
+      expect(response.text).toBe(body);
+    });
+
+    it('keeps the cache headers of the cacheControl option', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ cacheControl: { maxAge: 60 }, queryMap }),
+        withETag(graphqlHTTP({ schema })),
+      );
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'greetGuest' }))
+        .set('If-None-Match', etag);
+
+      expect(response.status).toBe(HTTP_STATUS_NOT_MODIFIED);
+      expect(response.get('Cache-Control')).toBe('public, max-age=60');
+      expect(response.get('ETag')).toBe(etag);
+    });
+
+    it('does not set an ETag for error responses', async () => {
+      const app = createApp();
+
+      app.get(endpoint(), persistedQueries({ queryMap }), withETag(graphqlHTTP({ schema })));
+
+      const response = await request(app)
+        .get(endpoint({ queryId: 'invalid' }))
+        .set('If-None-Match', '*');
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.get('ETag')).not.toBe(etag);
+    });
+
+    it('does not set an ETag for POST requests', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), withETag(graphqlHTTP({ schema })));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('If-None-Match', etag)
+        .send({ queryId: 'greetGuest' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.get('ETag')).not.toBe(etag);
+    });
+
+    it('buffers responses that are written in chunks', async () => {
+      const app = createApp();
+      const callback = jest.fn();
+
+      app.get(
+        endpoint(),
+        withETag((_req, res) => {
+          res.writeHead(HTTP_STATUS_OK, 'Fine');
+          res.writeHead(HTTP_STATUS_OK, undefined, { 'content-type': CONTENT_TYPE_JSON });
+          res.write(Buffer.from('{"data":'), callback);
+          res.write(Buffer.from('{"greet":"Hello guest!"}}').toString('hex'), 'hex');
+          res.end(callback);
+        }),
+      );
+
+      const responses = await Promise.all([
+        request(app).get(endpoint()),
+        request(app).get(endpoint()).set('If-None-Match', etag),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_OK);
+      expect(responses[0].get('Content-Type')).toBe(CONTENT_TYPE_JSON);
+      expect(responses[0].get('ETag')).toBe(etag);
+      expect(responses[0].text).toBe(body);
+      expect(responses[1].status).toBe(HTTP_STATUS_NOT_MODIFIED);
+      expect(responses[1].text).toBe('');
+      expect(callback).toHaveBeenCalled();
+    });
+  });
+
+  describe('Multipart bodies', () => {
+    const upload = 'mutation UploadFileMutation($file: Upload) { uploadFile(file: $file) }';
+
+    function echoMultipart(req: Request, res: Response): void {
+      const { files } = req as RequestWithMulterFiles;
+
+      res.setHeader('Content-Type', CONTENT_TYPE_JSON);
+      res.end(
+        JSON.stringify({
+          body: req.body,
+          files: files.map(({ buffer, originalname }) => [originalname, buffer.toString()]),
+        }),
+      );
+    }
+
+    function multipartBody(boundary: string, ...fields: [string, string][]): string {
+      return fields
+        .map(([name, value]) =>
+          [`--${boundary}`, `Content-Disposition: form-data; name="${name}"`, '', value].join(
+            '\r\n',
+          ),
+        )
+        .join('\r\n');
+    }
+
+    it('resolves the query ID in the operations field', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .field('operations', JSON.stringify({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('puts the resolved operations back for the multipart parser', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ queryMap: { upload } }),
+        multer().any() as Middleware,
+        echoMultipart,
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .field('operations', JSON.stringify({ queryId: 'upload', variables: { file: null } }))
+        .field('map', JSON.stringify({ 0: ['variables.file'] }))
+        .attach('0', Buffer.from('test'), 'test.txt');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        body: {
+          map: JSON.stringify({ 0: ['variables.file'] }),
+          operations: JSON.stringify({
+            queryId: 'upload',
+            variables: { file: null },
+            query: upload,
+          }),
+        },
+        files: [['test.txt', 'test']],
+      });
+    });
+
+    it('puts the resolved operations back into a chunked body', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ queryMap: { upload } }),
+        multer().any() as Middleware,
+        echoMultipart,
+      );
+
+      const req = request(app)
+        .post(endpoint())
+        .set('Content-Type', 'multipart/form-data; boundary=boundary');
+
+      req.write(multipartBody('boundary', ['operations', JSON.stringify({ queryId: 'upload' })]));
+      req.write('\r\n--boundary--\r\n');
+
+      const response = await req;
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        body: {
+          operations: JSON.stringify({ queryId: 'upload', query: upload }),
+        },
+        files: [],
+      });
+    });
+
+    it('leaves a body whose first field is not operations to the multipart parser', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ queryMap }),
+        multer().any() as Middleware,
+        echoMultipart,
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .field('queryId', 'greetGuest')
+        .attach('file', Buffer.from('test'), 'test.txt');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        body: { queryId: 'greetGuest' },
+        files: [['test.txt', 'test']],
+      });
+    });
+
+    it('ignores a multipart body without a boundary', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint({ queryId: 'greetGuest' }))
+        .set('Content-Type', 'multipart/form-data')
+        .send('operations');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('leaves a batched operations field to the multipart parser when not batching', async () => {
+      const app = createApp();
+      const operations = JSON.stringify([{ query: upload, variables: { file: null } }]);
+
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: false, queryMap }),
+        multer().any() as Middleware,
+        echoMultipart,
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .field('operations', operations)
+        .field('map', JSON.stringify({ 0: ['0.variables.file'] }))
+        .attach('0', Buffer.from('test'), 'test.txt');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        body: {
+          map: JSON.stringify({ 0: ['0.variables.file'] }),
+          operations,
+        },
+        files: [['test.txt', 'test']],
+      });
+    });
+
+    it('errors when the operations field is not a valid JSON object in strict mode', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap, strict: true }), graphqlHTTP({ schema }));
+
+      const response = await request(app).post(endpoint()).field('operations', 'greetGuest');
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INVALID_REQUEST_BODY' },
+            message: 'Request body is not a valid JSON object.',
+          },
+        ],
+      });
+    });
+
+    it('errors when the operations field is a batch for a strict namespace', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ namespaces: { ios: { queryMap, strict: true } }, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('apollographql-client-name', 'ios')
+        .field('operations', JSON.stringify([{ queryId: 'greetGuest' }]));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INVALID_REQUEST_BODY' },
+            message: 'Request body is not a valid JSON object.',
+          },
+        ],
+      });
+    });
+
+    it('errors when the body ends before the operations field', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const req = request(app)
+        .post(endpoint())
+        .set('Content-Type', 'multipart/form-data; boundary=boundary');
+
+      const truncatedReq = request(app)
+        .post(endpoint())
+        .set('Content-Type', 'multipart/form-data; boundary=boundary');
+
+      req.write(multipartBody('boundary', ['operations', '{}']));
+      truncatedReq.write('--boundary\r\nContent-Disposition: form-data;');
+
+      const responses = await Promise.all([req, truncatedReq]);
+
+      for (const response of responses) {
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'INVALID_REQUEST_BODY' },
+              message: 'Request body is not a valid multipart body.',
+            },
+          ],
+        });
+      }
+    });
+
+    it('errors when the operations field exceeds the bodyLimit', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ bodyLimit: '10b', queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const req = request(app)
+        .post(endpoint())
+        .set('Content-Type', 'multipart/form-data; boundary=boundary');
+
+      req.write(multipartBody('boundary', ['operations', '{}']));
+
+      const response = await req;
+
+      expect(response.status).toBe(HTTP_STATUS_PAYLOAD_TOO_LARGE);
+      expect(response.body).toStrictEqual({
+        errors: [{ extensions: { code: 'BODY_TOO_LARGE' }, message: 'Request body too large.' }],
+      });
+    });
+  });
+
+  describe('Body parsing', () => {
+    it('ignores a body with an unsupported Content-Type', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint({ queryId: 'greetGuest' }))
+        .set('Content-Type', 'text/plain; charset=utf-8')
+        .send('{ greet(name: "John") }');
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('parses an application/graphql body as the query text', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap, strict: true }), graphqlHTTP({ schema }));
+
+      const responses = await Promise.all([
+        request(app)
+          .post(endpoint({ queryId: 'greetGuest' }))
+          .set('Content-Type', `${CONTENT_TYPE_GRAPHQL}; charset=utf-8`)
+          .send('{ greet }'),
+        request(app)
+          .post(endpoint({ queryId: 'greetGuest' }))
+          .set('Content-Type', CONTENT_TYPE_JSON)
+          .send('{}'),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(responses[0].body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+            message: 'Request body has "query" but only persisted queries are allowed.',
+          },
+        ],
+      });
+      expect(responses[1].status).toBe(HTTP_STATUS_OK);
+    });
+
+    it('sets the query text of an application/graphql body on the request', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), (req, res) => {
+        res.setHeader('Content-Type', CONTENT_TYPE_JSON);
+        res.end(JSON.stringify(req.body));
+      });
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', CONTENT_TYPE_GRAPHQL)
+        .send('{ greet }');
+
+      expect(response.body).toStrictEqual({ query: '{ greet }' });
+    });
+
+    it('errors when JSON body is not an object', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).post(endpoint()).send([]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INVALID_REQUEST_BODY' },
+            message: 'Request body is not a valid JSON object.',
+          },
+        ],
+      });
+    });
+
+    it('errors when JSON body is an incomplete object', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .type('json')
+        .send('{ "queryId": "greetGuest"');
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INVALID_REQUEST_BODY' },
+            message: 'Request body is not a valid JSON object.',
+          },
+        ],
+      });
+    });
+
+    it('errors when the body has an unsupported charset', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=ascii`)
+        .send(JSON.stringify({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'UNSUPPORTED_CHARSET' },
+            message: 'Unsupported charset "ASCII".',
+          },
+        ],
+      });
+    });
+
+    it('errors when the body has an unsupported UTF charset', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf-18`)
+        .send(JSON.stringify({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'UNSUPPORTED_CHARSET' },
+            message: 'Unsupported charset "UTF-18".',
+          },
+        ],
+      });
+    });
+
+    it('parses a body with utf8 charset', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf8`)
+        .send(JSON.stringify({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('parses a body with utf-8 charset', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf-8`)
+        .send(JSON.stringify({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('parses a body with utf16le charset', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const body = Buffer.from(JSON.stringify({ queryId: 'greetGuest' }), 'utf16le').toString();
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf16le`)
+        .send(body);
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('defaults the charset to utf-8', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Type', CONTENT_TYPE_JSON)
+        .send(JSON.stringify({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('errors when the body has an unknown Content-Encoding', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app)
+        .post(endpoint())
+        .set('Content-Encoding', 'numbers')
+        .send('0123456789');
+
+      expect(response.status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'UNSUPPORTED_CONTENT_ENCODING' },
+            message: 'Unsupported Content-Encoding: "numbers".',
+          },
+        ],
+      });
+    });
+
+    it('errors when the body exceeds 100 KiB', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      const byteLength = 100 * UNIT_KIB + 1;
+      const body = Buffer.alloc(
+        byteLength,
+        'queryId=greetGuest&description=I love GraphQL',
+      ).toString();
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      assert(body.length === byteLength, 'String length needs to equal byte length');
+
+      const response = await request(app).post(endpoint()).send(body);
+
+      expect(response.status).toBe(HTTP_STATUS_PAYLOAD_TOO_LARGE);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'BODY_TOO_LARGE' },
+            message: 'Request body too large.',
+          },
+        ],
+      });
+    });
+
+    it('handles a body that does not exceed 100 KiB', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      const byteLength = 100 * UNIT_KIB;
+      const body = Buffer.alloc(
+        byteLength,
+        'queryId=greetGuest&description=I love GraphQL',
+      ).toString();
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      assert(body.length === byteLength, 'String length needs to equal byte length');
+
+      const response = await request(app).post(endpoint()).send(body);
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello guest!',
+        },
+      });
+    });
+
+    it('takes into account the body byte length, not string length', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      const byteLength = 100 * UNIT_KIB + 1;
+      const body = Buffer.alloc(
+        byteLength,
+        'queryId=greetGuest&description=I ♥ GraphQL',
+      ).toString();
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      assert(body.length < byteLength, 'String length needs to be less than byte length');
+
+      const response = await request(app).post(endpoint()).send(body);
+
+      expect(response.status).toBe(HTTP_STATUS_PAYLOAD_TOO_LARGE);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'BODY_TOO_LARGE' },
+            message: 'Request body too large.',
+          },
+        ],
+      });
+    });
+
+    it('handles a Brotli-compressed body', async () => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+
+      const req = request(app).post(endpoint()).type('json').set('Content-Encoding', 'br');
+
+      req.write(brotliCompressSync(JSON.stringify({ queryId: 'greetWorld' })));
+
+      const response = await req;
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello world!',
+        },
+      });
+    });
+
+    it('handles a body with a custom Content-Encoding', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ contentEncodings: { xGzip: createGunzip }, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const req = request(app).post(endpoint()).type('json').set('Content-Encoding', 'XGZIP');
+
+      req.write(gzipSync(JSON.stringify({ queryId: 'greetWorld' })));
+
+      const response = await req;
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello world!',
+        },
+      });
+    });
+
+    it.each([
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      [UNIT_KIB, UNIT_KIB],
+      ['1kb', UNIT_KIB],
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      [' 1.5 KB ', 1.5 * UNIT_KIB],
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      ['2048', 2 * UNIT_KIB],
+    ])('limits the body size to the bodyLimit %j', async (bodyLimit, byteLength) => {
+      const app = createApp();
+
+      app.post(endpoint(), persistedQueries({ bodyLimit, queryMap }), graphqlHTTP({ schema }));
+
+      const createBody = (length: number): string =>
+        Buffer.alloc(length, 'queryId=greetGuest&description=I love GraphQL').toString();
+
+      const responses = await Promise.all([
+        request(app).post(endpoint()).send(createBody(byteLength)),
+        request(app)
+          .post(endpoint())
+          // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+          .send(createBody(byteLength + 1)),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_OK);
+      expect(responses[1].status).toBe(HTTP_STATUS_PAYLOAD_TOO_LARGE);
+      expect(responses[1].body).toStrictEqual({
+        errors: [{ extensions: { code: 'BODY_TOO_LARGE' }, message: 'Request body too large.' }],
+      });
+    });
+
+    it('parses a body with a charset decoded by decodeCharset', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({
+          decodeCharset: (body, charset) => (charset === 'latin1' ? body.toString('latin1') : null),
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const body = JSON.stringify({
+        queryId: 'greetName',
+        variables: { name: 'Zoë' },
+      });
+      const req = request(app)
+        .post(endpoint())
+        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=LATIN1`);
+
+      req.write(Buffer.from(body, 'latin1'));
+
+      const responses = await Promise.all([
+        req,
+        request(app)
+          .post(endpoint())
+          .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=ascii`)
+          .send(body),
+      ]);
+
+      expect(responses[0].status).toBe(HTTP_STATUS_OK);
+      expect(responses[0].body).toStrictEqual({
+        data: {
+          greet: 'Hello Zoë!',
+        },
+      });
+      expect(responses[1].status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
+      expect(responses[1].body).toStrictEqual({
+        errors: [
+          { extensions: { code: 'UNSUPPORTED_CHARSET' }, message: 'Unsupported charset "ASCII".' },
+        ],
+      });
+    });
+
+    it.each([
+      [
+        { bodyLimit: '1 tb' },
+        'options.bodyLimit must be a non-negative integer or a string with a unit, such as "1mb".',
+      ],
+      [
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        { bodyLimit: -1 },
+        'options.bodyLimit must be a non-negative integer or a string with a unit, such as "1mb".',
+      ],
+      [
+        { contentEncodings: 'br' },
+        'options.contentEncodings must be an object mapping content encodings to functions.',
+      ],
+      [{ contentEncodings: { br: 'br' } }, 'options.contentEncodings.br must be a function.'],
+      [{ decodeCharset: 'latin1' }, 'options.decodeCharset must be a function.'],
+    ])('validates the body parsing options %j', async (options, message) => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.post(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ ...options, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).post(endpoint()).send({ queryId: 'greetGuest' });
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [{ extensions: { code: 'INTERNAL_SERVER_ERROR' }, message }],
+      });
+
+      spy.mockRestore();
+    });
+
+    it('sets the parsed body as the "body" property on the request', async () => {
+      const app = createApp();
+
+      // eslint-disable-next-line @typescript-eslint/init-declarations
+      let seenRequest: Request | undefined;
+
+      app.post(
+        endpoint(),
+        persistedQueries({ queryMap }),
+        (req, _, next) => {
+          seenRequest = req;
+
+          next();
+        },
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({
+          foo: 'bar',
+          queryId: 'greetName',
+          variables: {
+            name: 'Jessica',
+          },
+        });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({
+        data: {
+          greet: 'Hello Jessica!',
+        },
+      });
+
+      expect(seenRequest?.body).toStrictEqual({
+        foo: 'bar',
+        query: 'query GreetQuery($name: String!) { greet(name: $name) }',
+        queryId: 'greetName',
+        variables: {
+          name: 'Jessica',
+        },
+      });
+    });
+  });
+
+  describe('"formatError" option', () => {
+    it('reshapes the errors of the middleware', async () => {
+      const app = createApp();
+      const formatError = jest.fn((error: GraphQLFormattedError, req: Request) => ({
+        ...error,
+        extensions: { ...error.extensions, method: req.method },
+      }));
+
+      app.get(endpoint(), persistedQueries({ formatError, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND', method: 'GET' },
+            message:
+              'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+          },
+        ],
+      });
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(formatError).toHaveBeenCalledTimes(1);
+    });
+
+    it('redacts errors based on their code', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          formatError: (error) =>
+            error.extensions?.code === 'INTERNAL_SERVER_ERROR'
+              ? { extensions: error.extensions, message: 'Something went wrong.' }
+              : error,
+          queryMap: () => {
+            throw new Error('Database password is "hunter2".');
+          },
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          { extensions: { code: 'INTERNAL_SERVER_ERROR' }, message: 'Something went wrong.' },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+
+    it('formats the errors of each operation of a batch', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        persistedQueries({
+          batching: true,
+          formatError: (error) => ({ message: String(error.extensions?.code) }),
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'nonExistingQueryId' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual([
+        { errors: [{ message: 'BATCH_OPERATION_NOT_EXECUTED' }] },
+        { errors: [{ message: 'PERSISTED_QUERY_NOT_FOUND' }] },
+      ]);
+    });
+
+    it('responds with a generic error when formatError throws', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          formatError: () => {
+            throw new Error('Failed to format error.');
+          },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          { extensions: { code: 'INTERNAL_SERVER_ERROR' }, message: 'Internal server error.' },
+        ],
+      });
+      expect(console.error).toHaveBeenCalledWith(new Error('Failed to format error.'));
+
+      spy.mockRestore();
+    });
+
+    it('validates the formatError option', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ formatError: 'json', queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.formatError must be a function.',
+          },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('"errorHandling" option', () => {
+    function withErrorHandler(middleware: Middleware): Middleware {
+      return (req, res, next): void => {
+        middleware(req, res, (error?: unknown): void => {
+          if (!isHttpError(error)) {
+            next();
+
+            return;
+          }
+
+          res.statusCode = error.statusCode;
+          res.setHeader('Content-Type', CONTENT_TYPE_JSON);
+          res.end(
+            JSON.stringify({
+              code: (error.extensions as Record<string, unknown>).code,
+              expose: error.expose,
+              headers: error.headers,
+              message: error.message,
+            }),
+          );
+        });
+      };
+    }
+
+    it('passes errors to next', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        withErrorHandler(persistedQueries({ errorHandling: 'next', queryMap })),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        code: 'PERSISTED_QUERY_NOT_FOUND',
+        expose: true,
+        message: 'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+      });
+    });
+
+    it('leaves the headers of errors to the error handler', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        withErrorHandler(persistedQueries({ errorHandling: 'next', queryMap })),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'like' }));
+
+      expect(response.status).toBe(HTTP_STATUS_METHOD_NOT_ALLOWED);
+      expect(response.get('Allow')).toBeUndefined();
+      expect(response.body).toStrictEqual({
+        code: 'OPERATION_NOT_ALLOWED',
+        expose: true,
+        headers: { allow: 'POST' },
+        message: 'Can only perform a mutation operation from a POST request.',
+      });
+    });
+
+    it('passes unexpected errors to next as internal server errors', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        withErrorHandler(
+          persistedQueries({
+            errorHandling: 'next',
+            queryMap: () => {
+              throw new Error('Failed to load queries.');
+            },
+          }),
+        ),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        code: 'INTERNAL_SERVER_ERROR',
+        expose: false,
+        message: 'Failed to load queries.',
+      });
+    });
+
+    it('passes the error of the first failed operation of a batch to next', async () => {
+      const app = createApp();
+
+      app.post(
+        endpoint(),
+        withErrorHandler(persistedQueries({ batching: true, errorHandling: 'next', queryMap })),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'nonExistingQueryId' }, 'invalid']);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        code: 'PERSISTED_QUERY_NOT_FOUND',
+        expose: true,
+        message: 'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+      });
+    });
+
+    it('calls next without an error when there is no error', async () => {
+      const app = createApp();
+
+      app.get(
+        endpoint(),
+        withErrorHandler(persistedQueries({ errorHandling: 'next', queryMap })),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+    });
+
+    it('validates the errorHandling option', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ errorHandling: 'throw', queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
           {
-            message: 'Unsupported charset "ASCII".',
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.errorHandling must be "next" or "respond".',
+          },
+        ],
+      });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('"onError" option', () => {
+    it('observes errors without taking over the response', async () => {
+      const app = createApp();
+      const onError = jest.fn();
+
+      app.get(endpoint(), persistedQueries({ onError, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            message:
+              'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+          },
+        ],
+      });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+          statusCode: HTTP_STATUS_BAD_REQUEST,
+        }),
+        expect.objectContaining({ method: 'GET' }),
+      );
+    });
+
+    it('is called with the error of the first failed operation of a batch', async () => {
+      const app = createApp();
+      const onError = jest.fn();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, onError, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, 'invalid', { queryId: 'nonExistingQueryId' }]);
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ extensions: { code: 'INVALID_REQUEST_BODY' } }),
+        expect.anything(),
+      );
+    });
+
+    it('is called before errors are passed to next', async () => {
+      const app = createApp();
+      const calls: string[] = [];
+      const middleware = persistedQueries({
+        errorHandling: 'next',
+        onError: () => {
+          calls.push('onError');
+        },
+        queryMap,
+      });
+
+      app.get(endpoint(), (req, res) => {
+        middleware(req, res, () => {
+          calls.push('next');
+          res.end();
+        });
+      });
+
+      await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(calls).toStrictEqual(['onError', 'next']);
+    });
+
+    it('logs errors thrown by onError', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          onError: () => {
+            throw new Error('Failed to report error.');
+          },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            message:
+              'The provided query ID "nonExistingQueryId" did not match any persisted query.',
+          },
+        ],
+      });
+      expect(console.error).toHaveBeenCalledWith(new Error('Failed to report error.'));
+
+      spy.mockRestore();
+    });
+
+    it('validates the onError option', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ onError: 'log', queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+      expect(response.body).toStrictEqual({
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.onError must be a function.',
           },
         ],
       });
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('Lifecycle hooks', () => {
+    const LOOKUP_DELAY = 20;
+    const greetHash = sha256('{ greet }');
+
+    it('calls onBodyParsed with the parsed body', async () => {
+      const app = createApp();
+      const onBodyParsed = jest.fn();
+
+      app.post(endpoint(), persistedQueries({ onBodyParsed, queryMap }), graphqlHTTP({ schema }));
+
+      const response = await request(app).post(endpoint()).send({ queryId: 'greetGuest' });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(onBodyParsed).toHaveBeenCalledWith({
+        body: expect.objectContaining({ queryId: 'greetGuest' }) as unknown,
+        duration: expect.any(Number) as unknown,
+        req: expect.objectContaining({ method: 'POST' }) as unknown,
+      });
+    });
+
+    it('calls onResolve with the lookup duration when a query ID is found', async () => {
+      const app = createApp();
+      const onResolve = jest.fn();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          onResolve,
+          queryMap: async (queryId) => {
+            await new Promise((resolve) => {
+              setTimeout(resolve, LOOKUP_DELAY);
+            });
+
+            return queryMap[queryId as keyof typeof queryMap];
+          },
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(onResolve).toHaveBeenCalledTimes(1);
+      expect(onResolve).toHaveBeenCalledWith({
+        duration: expect.any(Number) as unknown,
+        outcome: 'found',
+        queryId: 'greetGuest',
+        req: expect.objectContaining({ method: 'GET' }) as unknown,
+      });
+
+      const [[{ duration }]] = onResolve.mock.calls as [[{ duration: number }]];
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(duration).toBeGreaterThanOrEqual(LOOKUP_DELAY - 1);
+    });
+
+    it('calls onResolve when a query is registered', async () => {
+      const app = createApp();
+      const onMiss = jest.fn();
+      const onResolve = jest.fn();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ autoRegister: true, onMiss, onResolve, queryMap: new Map() }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({ query: '{ greet }', queryId: greetHash });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(onResolve).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'registered', queryId: greetHash }),
+      );
+      expect(onMiss).not.toHaveBeenCalled();
+    });
+
+    it('calls onResolve for each operation of a batch', async () => {
+      const app = createApp();
+      const onResolve = jest.fn();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, onResolve, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'greetJohn' }]);
+
+      expect(onResolve).toHaveBeenNthCalledWith(
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        1,
+        expect.objectContaining({ queryId: 'greetGuest' }),
+      );
+      expect(onResolve).toHaveBeenNthCalledWith(
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        2,
+        expect.objectContaining({ queryId: 'greetJohn' }),
+      );
+    });
+
+    it('calls onMiss when a query ID does not match any persisted query', async () => {
+      const app = createApp();
+      const onMiss = jest.fn();
+      const onResolve = jest.fn();
+
+      app.get(
+        endpoint(),
+        persistedQueries({ onMiss, onResolve, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
+
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(onMiss).toHaveBeenCalledWith({
+        duration: expect.any(Number) as unknown,
+        outcome: 'rejected',
+        queryId: 'nonExistingQueryId',
+        req: expect.objectContaining({ method: 'GET' }) as unknown,
+      });
+      expect(onResolve).not.toHaveBeenCalled();
+    });
+
+    it('calls onMiss when the provided query of an APQ request is executed', async () => {
+      const app = createApp();
+      const onMiss = jest.fn();
+
+      app.post(
+        endpoint(),
+        persistedQueries({ apq: true, onMiss, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app)
+        .post(endpoint())
+        .send({
+          extensions: { persistedQuery: { sha256Hash: greetHash, version: 1 } },
+          query: '{ greet }',
+        });
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(onMiss).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'executed', queryId: greetHash }),
+      );
+    });
+
+    it.each([
+      [{ query: '{ greet }', queryId: 'greetGuest' }, 'greetGuest', 'query'],
+      [{ query: '{ greet }' }, null, 'query'],
+      [{ variables: {} }, null, 'missingQueryId'],
+    ])(
+      'calls onRejectStrict when a request is rejected in strict mode %j',
+      async (body, queryId, reason) => {
+        const app = createApp();
+        const onRejectStrict = jest.fn();
+
+        app.post(
+          endpoint(),
+          persistedQueries({ onRejectStrict, queryMap, strict: true }),
+          graphqlHTTP({ schema }),
+        );
+
+        const response = await request(app).post(endpoint()).send(body);
+
+        expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+        expect(onRejectStrict).toHaveBeenCalledWith({
+          queryId,
+          reason,
+          req: expect.objectContaining({ method: 'POST' }) as unknown,
+        });
+      },
+    );
+
+    it('logs errors thrown by hooks without failing the request', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          onResolve: () => {
+            throw new Error('Failed to record metrics.');
+          },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+      expect(console.error).toHaveBeenCalledWith(new Error('Failed to record metrics.'));
+
+      spy.mockRestore();
+    });
+
+    it('logs rejections of async hooks without failing the request', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        persistedQueries({
+          onResolve: async () => {
+            await Promise.resolve();
+
+            throw new Error('Failed to record metrics.');
+          },
+          queryMap,
+        }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.body).toStrictEqual({ data: { greet: 'Hello guest!' } });
+      expect(console.error).toHaveBeenCalledWith(new Error('Failed to record metrics.'));
+
+      spy.mockRestore();
     });
 
-    it('errors when the body has an unsupported UTF charset', async () => {
-      const app = createApp();
+    it.each(['onBodyParsed', 'onMiss', 'onRejectStrict', 'onResolve'])(
+      'validates the %s option',
+      async (hookName) => {
+        const app = createApp();
+        const spy = jest.spyOn(console, 'error').mockImplementation();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+        app.get(
+          endpoint(),
+          persistedQueries({ [hookName]: 'log', queryMap }),
+          graphqlHTTP({ schema }),
+        );
 
-      const response = await request(app)
-        .post(endpoint())
-        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf-18`)
-        .send(JSON.stringify({ queryId: 'greetGuest' }));
+        const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
 
-      expect(response.status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
-      expect(response.body).toStrictEqual({
-        errors: [
-          {
-            message: 'Unsupported charset "UTF-18".',
-          },
-        ],
-      });
-    });
+        expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
+        expect(response.body).toStrictEqual({
+          errors: [
+            {
+              extensions: { code: 'INTERNAL_SERVER_ERROR' },
+              message: `options.${hookName} must be a function.`,
+            },
+          ],
+        });
 
-    it('parses a body with utf8 charset', async () => {
-      const app = createApp();
+        spy.mockRestore();
+      },
+    );
+  });
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+  describe('"tracing" option', () => {
+    function getSpans(name: string): ReadableSpan[] {
+      return spanExporter
+        .getFinishedSpans()
+        .filter((span) => span.name === `persistedQueries${name}`);
+    }
 
-      const response = await request(app)
-        .post(endpoint())
-        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf8`)
-        .send(JSON.stringify({ queryId: 'greetGuest' }));
+    function getSpan(name: string): ReadableSpan {
+      const [span] = getSpans(name);
 
-      expect(response.status).toBe(HTTP_STATUS_OK);
-      expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello guest!',
-        },
-      });
+      assert(span != null, `Span "persistedQueries${name}" was not recorded.`);
+
+      return span;
+    }
+
+    beforeEach(() => {
+      spanExporter.reset();
     });
 
-    it('parses a body with utf-8 charset', async () => {
+    it('creates spans for resolving options, parsing the body and looking up the query ID', async () => {
       const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      app.post(endpoint(), persistedQueries({ queryMap, tracing: true }), graphqlHTTP({ schema }));
 
-      const response = await request(app)
-        .post(endpoint())
-        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf-8`)
-        .send(JSON.stringify({ queryId: 'greetGuest' }));
+      const response = await request(app).post(endpoint()).send({ queryId: 'greetWorld' });
 
       expect(response.status).toBe(HTTP_STATUS_OK);
-      expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello guest!',
-        },
-      });
+
+      const span = getSpan('');
+
+      expect(new Map(Object.entries(span.attributes))).toStrictEqual(
+        new Map([
+          ['graphql.operation.name', 'GreetWorldQuery'],
+          ['graphql.operation.type', 'query'],
+          ['graphql.persisted_query.id', 'greetWorld'],
+          ['graphql.persisted_query.outcome', 'found'],
+        ]),
+      );
+      expect(span.status.code).toBe(SpanStatusCode.UNSET);
+
+      for (const name of ['.resolveOptions', '.parseBody', '.lookUp']) {
+        expect(getSpan(name).parentSpanId).toBe(span.spanContext().spanId);
+        expect(getSpan(name).spanContext().traceId).toBe(span.spanContext().traceId);
+      }
+
+      expect(new Map(Object.entries(getSpan('.lookUp').attributes))).toStrictEqual(
+        new Map([
+          ['graphql.persisted_query.id', 'greetWorld'],
+          ['graphql.persisted_query.outcome', 'found'],
+        ]),
+      );
     });
 
-    it('parses a body with utf16le charset', async () => {
+    it('marks the span as failed when the request results in an error', async () => {
       const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      app.get(endpoint(), persistedQueries({ queryMap, tracing: true }), graphqlHTTP({ schema }));
 
-      const body = Buffer.from(JSON.stringify({ queryId: 'greetGuest' }), 'utf16le').toString();
+      const response = await request(app).get(endpoint({ queryId: 'nonExistingQueryId' }));
 
-      const response = await request(app)
-        .post(endpoint())
-        .set('Content-Type', `${CONTENT_TYPE_JSON}; charset=utf16le`)
-        .send(body);
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
 
-      expect(response.status).toBe(HTTP_STATUS_OK);
-      expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello guest!',
-        },
+      const span = getSpan('');
+
+      expect(new Map(Object.entries(span.attributes))).toStrictEqual(
+        new Map([
+          ['graphql.persisted_query.error_code', 'PERSISTED_QUERY_NOT_FOUND'],
+          ['graphql.persisted_query.outcome', 'rejected'],
+        ]),
+      );
+      expect(span.status).toStrictEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'The provided query ID "nonExistingQueryId" did not match any persisted query.',
       });
+      expect(new Map(Object.entries(getSpan('.lookUp').attributes))).toStrictEqual(
+        new Map([
+          ['graphql.persisted_query.id', 'nonExistingQueryId'],
+          ['graphql.persisted_query.outcome', 'rejected'],
+        ]),
+      );
     });
 
-    it('defaults the charset to utf-8', async () => {
+    it('creates a lookup span for each operation of a batch', async () => {
       const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, queryMap, tracing: true }),
+        graphqlHTTP({ schema }),
+      );
 
-      const response = await request(app)
+      await request(app)
         .post(endpoint())
-        .set('Content-Type', CONTENT_TYPE_JSON)
-        .send(JSON.stringify({ queryId: 'greetGuest' }));
+        .send([{ queryId: 'greetGuest' }, { queryId: 'nonExistingQueryId' }]);
 
-      expect(response.status).toBe(HTTP_STATUS_OK);
-      expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello guest!',
-        },
-      });
+      expect(
+        getSpans('.lookUp').map((span) => span.attributes['graphql.persisted_query.id']),
+      ).toStrictEqual(['greetGuest', 'nonExistingQueryId']);
+      expect(getSpan('').status.code).toBe(SpanStatusCode.ERROR);
     });
 
-    it('errors when the body has an unknown Content-Encoding', async () => {
+    it('runs the downstream handler in the context of the span', async () => {
       const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      // eslint-disable-next-line @typescript-eslint/init-declarations
+      let activeSpanId: string | undefined;
 
-      const response = await request(app)
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, queryMap, tracing: true }),
+        (_req, res) => {
+          activeSpanId = trace.getSpan(otelContext.active())?.spanContext().spanId;
+          res.end();
+        },
+      );
+
+      await request(app).post(endpoint()).send({ queryId: 'greetGuest' });
+      await request(app)
         .post(endpoint())
-        .set('Content-Encoding', 'numbers')
-        .send('0123456789');
+        .send([{ queryId: 'greetGuest' }]);
 
-      expect(response.status).toBe(HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE);
-      expect(response.body).toStrictEqual({
-        errors: [
-          {
-            message: 'Unsupported Content-Encoding: "numbers".',
-          },
-        ],
-      });
+      const spanIds = getSpans('').map((span) => span.spanContext().spanId);
+
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(spanIds).toHaveLength(2);
+      expect(activeSpanId).toBe(spanIds[1]);
     });
 
-    it('errors when the body exceeds 100 KiB', async () => {
+    it('does not create spans by default', async () => {
       const app = createApp();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      app.get(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
 
-      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-      const byteLength = 100 * UNIT_KIB + 1;
-      const body = Buffer.alloc(
-        byteLength,
-        'queryId=greetGuest&description=I love GraphQL',
-      ).toString();
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
 
-      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-      assert(body.length === byteLength, 'String length needs to equal byte length');
+      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(spanExporter.getFinishedSpans()).toStrictEqual([]);
+    });
+  });
 
-      const response = await request(app).post(endpoint()).send(body);
+  describe('"metrics" option', () => {
+    it('counts requests by outcome', async () => {
+      const app = createApp();
+      const metrics = createMetrics();
 
-      expect(response.status).toBe(HTTP_STATUS_PAYLOAD_TOO_LARGE);
-      expect(response.body).toStrictEqual({
-        errors: [
-          {
-            message: 'Request body too large.',
-          },
-        ],
-      });
+      app.get(endpoint(), persistedQueries({ metrics, queryMap }), graphqlHTTP({ schema }));
+      app.post(endpoint(), persistedQueries({ metrics, queryMap }), graphqlHTTP({ schema }));
+
+      await request(app).get(endpoint({ queryId: 'greetGuest' }));
+      await request(app).get(endpoint({ queryId: 'greetGuest' }));
+      await request(app).get(endpoint({ query: '{ greet }' }));
+      await request(app).get(endpoint({ queryId: 'unknown' }));
+      await request(app).post(endpoint()).type(CONTENT_TYPE_JSON).send('{');
+
+      const rendered = metrics.render();
+
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="hit"} 2\n');
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="ad_hoc"} 1\n');
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="miss"} 1\n');
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="parse_error"} 1\n');
     });
 
-    it('handles a body that does not exceed 100 KiB', async () => {
+    it('counts requests rejected by strict mode', async () => {
       const app = createApp();
+      const metrics = createMetrics();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      app.get(
+        endpoint(),
+        persistedQueries({ metrics, queryMap, strict: true }),
+        graphqlHTTP({ schema }),
+      );
 
-      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-      const byteLength = 100 * UNIT_KIB;
-      const body = Buffer.alloc(
-        byteLength,
-        'queryId=greetGuest&description=I love GraphQL',
-      ).toString();
+      const response = await request(app).get(endpoint({ query: '{ greet }' }));
 
-      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-      assert(body.length === byteLength, 'String length needs to equal byte length');
+      expect(response.status).toBe(HTTP_STATUS_BAD_REQUEST);
+      expect(metrics.render()).toContain(
+        'persisted_queries_requests_total{outcome="strict_rejection"} 1\n',
+      );
+    });
 
-      const response = await request(app).post(endpoint()).send(body);
+    it('records the latency of lookups and the usage of query IDs', async () => {
+      const app = createApp();
+      const metrics = createMetrics();
 
-      expect(response.status).toBe(HTTP_STATUS_OK);
-      expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello guest!',
-        },
-      });
+      app.get(endpoint(), persistedQueries({ metrics, queryMap }), graphqlHTTP({ schema }));
+
+      await request(app).get(endpoint({ queryId: 'greetGuest' }));
+      await request(app).get(endpoint({ queryId: 'unknown' }));
+
+      const rendered = metrics.render();
+
+      expect(rendered).toContain(
+        'persisted_queries_lookup_duration_seconds_bucket{le="+Inf",outcome="found"} 1\n',
+      );
+      expect(rendered).toContain(
+        'persisted_queries_lookup_duration_seconds_count{outcome="rejected"} 1\n',
+      );
+      expect(rendered).toContain(
+        'persisted_queries_query_id_requests_total{query_id="greetGuest"} 1\n',
+      );
+      expect(rendered).not.toContain('query_id="unknown"');
     });
 
-    it('takes into account the body byte length, not string length', async () => {
+    it('counts each operation of a batch', async () => {
       const app = createApp();
+      const metrics = createMetrics();
 
-      app.post(endpoint(), persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+      app.post(
+        endpoint(),
+        persistedQueries({ batching: true, metrics, queryMap }),
+        graphqlHTTP({ schema }),
+      );
 
-      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-      const byteLength = 100 * UNIT_KIB + 1;
-      const body = Buffer.alloc(
-        byteLength,
-        'queryId=greetGuest&description=I ♥ GraphQL',
-      ).toString();
+      await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { query: '{ greet }' }, { queryId: 'unknown' }]);
+      await request(app).post(endpoint()).send([]);
 
-      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-      assert(body.length < byteLength, 'String length needs to be less than byte length');
+      const rendered = metrics.render();
 
-      const response = await request(app).post(endpoint()).send(body);
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="hit"} 1\n');
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="ad_hoc"} 1\n');
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="miss"} 1\n');
+      expect(rendered).toContain('persisted_queries_requests_total{outcome="error"} 1\n');
+    });
 
-      expect(response.status).toBe(HTTP_STATUS_PAYLOAD_TOO_LARGE);
+    it('validates the metrics option', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ metrics: {}, queryMap }),
+        graphqlHTTP({ schema }),
+      );
+
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
+
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
       expect(response.body).toStrictEqual({
         errors: [
           {
-            message: 'Request body too large.',
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.metrics must be created with createMetrics.',
           },
         ],
       });
+
+      spy.mockRestore();
     });
+  });
 
-    it('sets the parsed body as the "body" property on the request', async () => {
+  describe('"usageRecorder" option', () => {
+    it('records the usage of query IDs that resolve to a persisted query', async () => {
       const app = createApp();
-
-      // eslint-disable-next-line @typescript-eslint/init-declarations
-      let seenRequest: Request | undefined;
+      const usageRecorder = createUsageRecorder();
 
       app.post(
         endpoint(),
-        persistedQueries({ queryMap }),
-        (req, _, next) => {
-          seenRequest = req;
+        persistedQueries({ batching: true, queryMap, usageRecorder }),
+        graphqlHTTP({ schema }),
+      );
 
-          next();
+      await request(app).post(endpoint()).send({ queryId: 'greetGuest' });
+      await request(app)
+        .post(endpoint())
+        .send([{ queryId: 'greetGuest' }, { queryId: 'like' }]);
+      await request(app).post(endpoint()).send({ queryId: 'unknown' });
+      await request(app).post(endpoint()).send({ query: '{ greet }' });
+
+      expect(await usageRecorder.getUsage()).toStrictEqual({
+        greetGuest: {
+          calls: 2,
+          firstSeen: expect.any(Number) as unknown,
+          lastSeen: expect.any(Number) as unknown,
         },
+        like: {
+          calls: 1,
+          firstSeen: expect.any(Number) as unknown,
+          lastSeen: expect.any(Number) as unknown,
+        },
+      });
+    });
+
+    it('validates the usageRecorder option', async () => {
+      const app = createApp();
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      app.get(
+        endpoint(),
+        // @ts-expect-error Invalid usage
+        persistedQueries({ queryMap, usageRecorder: {} }),
         graphqlHTTP({ schema }),
       );
 
-      const response = await request(app)
-        .post(endpoint())
-        .send({
-          foo: 'bar',
-          queryId: 'greetName',
-          variables: {
-            name: 'Jessica',
-          },
-        });
+      const response = await request(app).get(endpoint({ queryId: 'greetGuest' }));
 
-      expect(response.status).toBe(HTTP_STATUS_OK);
+      expect(response.status).toBe(HTTP_STATUS_INTERNAL_SERVER_ERROR);
       expect(response.body).toStrictEqual({
-        data: {
-          greet: 'Hello Jessica!',
-        },
+        errors: [
+          {
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+            message: 'options.usageRecorder must be created with createUsageRecorder.',
+          },
+        ],
       });
 
-      expect(seenRequest?.body).toStrictEqual({
-        foo: 'bar',
-        query: 'query GreetQuery($name: String!) { greet(name: $name) }',
-        queryId: 'greetName',
-        variables: {
-          name: 'Jessica',
-        },
-      });
+      spy.mockRestore();
     });
   });
 }
@@ -0,0 +1,176 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import rimraf from 'rimraf';
+import { loadManifest, parseManifest } from '..';
+import type { ManifestFormat } from '../types';
+
+const relayManifest = {
+  a1b2c3: 'query AppQuery { greet }',
+  d4e5f6: 'mutation LikeMutation { like }',
+};
+
+const apolloManifest = {
+  format: 'apollo-persisted-query-manifest',
+  version: 1,
+  operations: [
+    { id: 'a1b2c3', name: 'AppQuery', type: 'query', body: 'query AppQuery { greet }' },
+    {
+      id: 'd4e5f6',
+      name: 'LikeMutation',
+      type: 'mutation',
+      body: 'mutation LikeMutation { like }',
+    },
+  ],
+};
+
+describe('parseManifest', () => {
+  it('parses a relay-compiler manifest', () => {
+    expect(parseManifest(relayManifest)).toStrictEqual(relayManifest);
+    expect(parseManifest(relayManifest, { format: 'relay' })).toStrictEqual(relayManifest);
+  });
+
+  it('parses a GraphQL Code Generator manifest', () => {
+    expect(parseManifest(relayManifest, { format: 'graphql-codegen' })).toStrictEqual(
+      relayManifest,
+    );
+  });
+
+  it('parses an Apollo manifest', () => {
+    expect(parseManifest(apolloManifest)).toStrictEqual(relayManifest);
+    expect(parseManifest(apolloManifest, { format: 'apollo' })).toStrictEqual(relayManifest);
+  });
+
+  it('parses an Apollo manifest without format and version', () => {
+    expect(parseManifest({ operations: apolloManifest.operations })).toStrictEqual(relayManifest);
+  });
+
+  it('allows an Apollo manifest to list the same operation twice', () => {
+    const [operation] = apolloManifest.operations;
+
+    expect(parseManifest({ operations: [operation, operation] })).toStrictEqual({
+      a1b2c3: 'query AppQuery { greet }',
+    });
+  });
+
+  it('rejects a manifest that is not an object', () => {
+    expect(() => parseManifest([], { source: 'manifest.json' })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest "manifest.json": expected an object mapping query IDs to query text or an Apollo manifest with an "operations" array.',
+      ),
+    );
+  });
+
+  it('rejects a flat manifest with an invalid entry', () => {
+    expect(() => parseManifest({ a1b2c3: 'query AppQuery { greet }', d4e5f6: 42 })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: the query ID "d4e5f6" must map to a non-empty query string.',
+      ),
+    );
+  });
+
+  it('rejects an Apollo manifest with an unknown format', () => {
+    expect(() => parseManifest({ ...apolloManifest, format: 'other' })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: "format" must be "apollo-persisted-query-manifest", but got "other".',
+      ),
+    );
+  });
+
+  it('rejects an Apollo manifest with an unsupported version', () => {
+    expect(() => parseManifest({ ...apolloManifest, version: 2 })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: only version 1 of the Apollo manifest format is supported, but got version 2.',
+      ),
+    );
+  });
+
+  it('rejects an Apollo manifest without operations', () => {
+    expect(() => parseManifest(relayManifest, { format: 'apollo' })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: an Apollo manifest must have an "operations" array.',
+      ),
+    );
+  });
+
+  it('rejects an Apollo manifest with invalid operations', () => {
+    expect(() => parseManifest({ operations: [null] })).toThrow(
+      new TypeError('Invalid persisted query manifest: operations[0] must be an object.'),
+    );
+    expect(() => parseManifest({ operations: [{ body: '{ greet }' }] })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: operations[0].id must be a non-empty string.',
+      ),
+    );
+    expect(() => parseManifest({ operations: [{ id: 'a1b2c3', body: '' }] })).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: operations[0].body must be a non-empty string.',
+      ),
+    );
+  });
+
+  it('rejects an Apollo manifest with conflicting operations', () => {
+    expect(() =>
+      parseManifest({
+        operations: [
+          { id: 'a1b2c3', body: '{ greet }' },
+          { id: 'a1b2c3', body: '{ like }' },
+        ],
+      }),
+    ).toThrow(
+      new TypeError(
+        'Invalid persisted query manifest: operations[1].id "a1b2c3" is used by another operation with a different body.',
+      ),
+    );
+  });
+
+  it('rejects an unsupported format', () => {
+    expect(() => parseManifest(relayManifest, { format: 'unknown' as ManifestFormat })).toThrow(
+      new TypeError(
+        'Unsupported persisted query manifest format "unknown". Supported formats are "apollo", "graphql-codegen", and "relay".',
+      ),
+    );
+  });
+});
+
+describe('loadManifest', () => {
+  let tmpDir = '';
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(tmpdir(), 'express-graphql-persisted-queries-'));
+  });
+
+  afterAll(() => {
+    rimraf.sync(tmpDir);
+  });
+
+  it('loads a manifest file', async () => {
+    const filePath = path.join(tmpDir, 'persisted-query-manifest.json');
+
+    writeFileSync(filePath, JSON.stringify(apolloManifest));
+
+    await expect(loadManifest(filePath)).resolves.toStrictEqual(relayManifest);
+  });
+
+  it('includes the file path in validation errors', async () => {
+    const filePath = path.join(tmpDir, 'persisted-queries.json');
+
+    writeFileSync(filePath, JSON.stringify({ a1b2c3: null }));
+
+    await expect(loadManifest(filePath, { format: 'relay' })).rejects.toThrow(
+      new TypeError(
+        `Invalid persisted query manifest "${filePath}": the query ID "a1b2c3" must map to a non-empty query string.`,
+      ),
+    );
+  });
+
+  it('rejects a file that is not valid JSON', async () => {
+    const filePath = path.join(tmpDir, 'invalid.json');
+
+    writeFileSync(filePath, '{');
+
+    await expect(loadManifest(filePath)).rejects.toThrow(
+      `Invalid persisted query manifest "${filePath}": the file is not valid JSON (`,
+    );
+  });
+});
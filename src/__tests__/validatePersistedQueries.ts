@@ -0,0 +1,44 @@
+import { GraphQLNonNull, GraphQLObjectType, GraphQLSchema, GraphQLString } from 'graphql';
+import { validatePersistedQueries } from '..';
+
+const schema = new GraphQLSchema({
+  query: new GraphQLObjectType({
+    name: 'Query',
+    fields: {
+      greet: { type: new GraphQLNonNull(GraphQLString) },
+    },
+  }),
+});
+
+describe('validatePersistedQueries', () => {
+  it('reports valid and invalid queries', () => {
+    const report = validatePersistedQueries(
+      schema,
+      Object.entries({
+        greet: '{ greet }',
+        typo: '{ gret }',
+        syntaxError: '{ greet',
+      }),
+    );
+
+    expect(report.valid).toStrictEqual(['greet']);
+    expect(
+      report.invalid.map(({ errors, queryId }) => ({
+        messages: errors.map((error) => error.message),
+        queryId,
+      })),
+    ).toStrictEqual([
+      {
+        messages: ['Cannot query field "gret" on type "Query". Did you mean "greet"?'],
+        queryId: 'typo',
+      },
+      { messages: ['Syntax Error: Expected Name, found <EOF>.'], queryId: 'syntaxError' },
+    ]);
+  });
+
+  it('accepts any iterable of query ID and query text pairs', () => {
+    const report = validatePersistedQueries(schema, new Map([['greet', '{ greet }']]));
+
+    expect(report).toStrictEqual({ invalid: [], valid: ['greet'] });
+  });
+});
@@ -0,0 +1,225 @@
+import type { GraphQLError } from 'graphql';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { assert } from './assert';
+import { callHook } from './callHook';
+import { createHandler } from './createHandler';
+import {
+  applyFormatError,
+  formatHttpError,
+  fromFormattedError,
+  toGraphQLError,
+  toHttpError,
+} from './httpErrors';
+import { parseOptions } from './parseOptions';
+import { resolveRequest } from './resolveRequest';
+import { isObject, isString, nonNull } from './typeguards';
+import type {
+  FastifyPreHandler,
+  GraphQLWsOnSubscribe,
+  GraphQLWsSubscribeMessage,
+  Handler,
+  HttpHandler,
+  KoaMiddleware,
+  Options,
+  ParsedOptions,
+  Request,
+  ResolveInput,
+} from './types';
+
+async function runHandler(
+  handler: Handler,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<boolean> {
+  let passesThrough = false;
+  let nextError: unknown = null;
+
+  await handler(req as Request, res, (error?: unknown) => {
+    passesThrough = true;
+    nextError = error;
+  });
+
+  if (nextError != null) {
+    throw nextError;
+  }
+
+  return passesThrough;
+}
+
+function getSubscribeBody(
+  { payload }: GraphQLWsSubscribeMessage,
+  queryIdKey: string,
+): Record<string, unknown> {
+  const { query, ...body }: Record<string, unknown> = payload;
+  const { extensions } = body;
+
+  if (query !== '') {
+    body.query = query;
+  }
+
+  if (body[queryIdKey] == null && isObject(extensions) && isString(extensions[queryIdKey])) {
+    body[queryIdKey] = extensions[queryIdKey];
+  }
+
+  return body;
+}
+
+async function resolveSubscribe(
+  options: ParsedOptions,
+  extra: unknown,
+  message: GraphQLWsSubscribeMessage,
+): Promise<readonly GraphQLError[] | undefined> {
+  const upgradeRequest =
+    isObject(extra) && isObject(extra.request) ? (extra.request as Partial<IncomingMessage>) : {};
+  const input: ResolveInput = {
+    body: getSubscribeBody(message, options.queryIdKey),
+    headers: upgradeRequest.headers,
+    method: 'POST',
+    url: upgradeRequest.url,
+  };
+  const result = await resolveRequest(options, input);
+
+  if (result.type === 'error') {
+    callHook(options.onError, result.error, input);
+
+    return [
+      fromFormattedError(
+        applyFormatError(options.formatError, formatHttpError(result.error), input),
+      ),
+    ];
+  }
+
+  if (result.type === 'persistedQuery') {
+    message.payload.query = result.persistedQuery.query;
+  }
+
+  return undefined;
+}
+
+/**
+ * Creates a handler for a plain Node.js HTTP server that adds support for
+ * persisted queries. It resolves with `true` when the request should continue
+ * to the GraphQL handler, with the query text set on `req.body`, and with
+ * `false` when it already sent an error response. When `options.errorHandling`
+ * is `"next"`, it rejects with the error instead.
+ * @param options Options to customize the handler behavior.
+ * @returns A handler that resolves with whether the request should continue.
+ * @example
+ * const handlePersistedQueries = persistedQueriesHttp({ queryMap });
+ *
+ * http.createServer(async (req, res) => {
+ *   if (await handlePersistedQueries(req, res)) {
+ *     graphqlHTTP({ schema })(req, res);
+ *   }
+ * });
+ */
+export function persistedQueriesHttp(options: Options): HttpHandler {
+  const handler = createHandler(options);
+
+  return async function persistedQueriesHttpHandler(req, res): Promise<boolean> {
+    return runHandler(handler, req, res);
+  };
+}
+
+/**
+ * Creates a Koa middleware that adds support for persisted queries. A body
+ * already parsed into `ctx.request.body`, such as by `koa-bodyparser`, is used
+ * instead of reading the request stream, and the body holding the query text
+ * is set on both `ctx.request.body` and `ctx.req.body` for the GraphQL
+ * middleware. When `options.errorHandling` is `"next"`, errors are thrown so
+ * that they reach the error handling of Koa.
+ * @param options Options to customize the middleware behavior.
+ * @returns A Koa middleware.
+ * @example
+ * app.use(bodyParser());
+ * app.use(persistedQueriesKoa({ queryMap }));
+ * app.use(mount('/graphql', graphqlHTTP({ schema })));
+ */
+export function persistedQueriesKoa(options: Options): KoaMiddleware {
+  const handler = createHandler(options);
+
+  return async function persistedQueriesKoaMiddleware(ctx, next): Promise<void> {
+    const req = ctx.req as Request;
+
+    if (ctx.request.body != null) {
+      req.body = ctx.request.body;
+    }
+
+    if (!(await runHandler(handler, req, ctx.res))) {
+      ctx.respond = false;
+
+      return;
+    }
+
+    ctx.request.body = req.body;
+
+    await next();
+  };
+}
+
+/**
+ * Creates a Fastify `preHandler` hook that adds support for persisted queries.
+ * The body parsed by Fastify is used instead of reading the request stream,
+ * and the body holding the query text is set on `request.body` for the route
+ * handler. When `options.errorHandling` is `"next"`, errors are thrown so that
+ * they reach the error handler of Fastify.
+ * @param options Options to customize the hook behavior.
+ * @returns A Fastify `preHandler` hook.
+ * @example
+ * fastify.post('/graphql', { preHandler: persistedQueriesFastify({ queryMap }) }, handler);
+ */
+export function persistedQueriesFastify(options: Options): FastifyPreHandler {
+  const handler = createHandler(options);
+
+  return async function persistedQueriesFastifyPreHandler(request, reply): Promise<void> {
+    const req = request.raw as Request;
+
+    if (request.body != null) {
+      req.body = request.body;
+    }
+
+    if (!(await runHandler(handler, req, reply.raw))) {
+      reply.hijack();
+
+      return;
+    }
+
+    request.body = req.body;
+  };
+}
+
+/**
+ * Creates an `onSubscribe` hook for a `graphql-ws` server that adds support for
+ * persisted queries. The query ID is read from the `queryIdKey` of the
+ * subscribe payload or of its `extensions`, or from the `persistedQuery`
+ * extension. An empty `query`, which `graphql-ws` requires clients to send,
+ * is ignored. The query text is set on `message.payload.query` so that the
+ * server parses, validates and executes it as usual, and errors, such as when
+ * `options.strict` rejects an ad hoc query, are passed to `options.onError` and
+ * `options.formatError` and sent over the socket as GraphQL errors. Callbacks
+ * that receive the request get a `ResolveInput` with the body of the subscribe
+ * message, the headers and URL of the upgrade request, when available, and the
+ * `"POST"` method.
+ * @param options Options to customize the hook behavior.
+ * @returns An `onSubscribe` hook for `graphql-ws`.
+ * @example
+ * useServer({ onSubscribe: persistedQueriesGraphQLWs({ queryMap, strict: true }), schema }, wsServer);
+ */
+export function persistedQueriesGraphQLWs(options: Options<ResolveInput>): GraphQLWsOnSubscribe {
+  assert(nonNull(options), 'You must provide options to persistedQueriesGraphQLWs.');
+
+  const parsedOptions = parseOptions(options);
+
+  parsedOptions.catch(console.error);
+
+  return async function persistedQueriesOnSubscribe(
+    { extra },
+    message,
+  ): Promise<readonly GraphQLError[] | undefined> {
+    try {
+      return await resolveSubscribe(await parsedOptions, extra, message);
+    } catch (unknownError: unknown) {
+      return [toGraphQLError(toHttpError(unknownError))];
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import type { OperationDefinitionNode } from 'graphql';
+import { HTTP_STATUS_METHOD_NOT_ALLOWED } from './constants';
+import { createHttpError } from './httpErrors';
+import type { Maybe, OperationType } from './types';
+
+interface Param {
+  allowedOperationTypes: Map<string, readonly OperationType[]>;
+  method: string;
+  operation: Maybe<OperationDefinitionNode>;
+}
+
+function getAllowedMethods(
+  allowedOperationTypes: Map<string, readonly OperationType[]>,
+  operationType: OperationType,
+): string[] {
+  const allowedMethods = allowedOperationTypes.has('POST') ? [] : ['POST'];
+
+  for (const [method, operationTypes] of allowedOperationTypes) {
+    if (operationTypes.includes(operationType)) {
+      allowedMethods.push(method);
+    }
+  }
+
+  return allowedMethods;
+}
+
+export function assertOperationAllowed({ allowedOperationTypes, method, operation }: Param): void {
+  const operationTypes = allowedOperationTypes.get(method);
+
+  if (operationTypes == null || operation == null || operationTypes.includes(operation.operation)) {
+    return;
+  }
+
+  const allowedMethods = getAllowedMethods(allowedOperationTypes, operation.operation);
+
+  throw createHttpError(
+    HTTP_STATUS_METHOD_NOT_ALLOWED,
+    'OPERATION_NOT_ALLOWED',
+    allowedMethods.length
+      ? `Can only perform a ${operation.operation} operation from a ${allowedMethods.join(
+          ' or ',
+        )} request.`
+      : `Cannot perform a ${operation.operation} operation.`,
+    { headers: { allow: allowedMethods.join(', ') } },
+  );
+}
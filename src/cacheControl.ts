@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import type { URLSearchParams } from 'url';
+import { assert } from './assert';
+import { HTTP_STATUS_NOT_MODIFIED, HTTP_STATUS_OK } from './constants';
+import { getRequestParam } from './getRequestParam';
+import { isObject, nonNull } from './typeguards';
+import type {
+  CachePolicy,
+  ParsedCacheControl,
+  Request,
+  ResolvedPersistedQuery,
+  Response,
+} from './types';
+
+const DEFAULT_MAX_AGE = 0;
+const MIN_SECONDS = 0;
+const CACHEABLE_METHODS: readonly unknown[] = ['GET', 'HEAD'];
+const SCOPES: readonly unknown[] = ['private', 'public'];
+
+interface Param {
+  body: unknown;
+  cacheControl: ParsedCacheControl;
+  persistedQuery: ResolvedPersistedQuery;
+  req: Request;
+  res: Response;
+  searchParams: URLSearchParams;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isInteger(value) && Number(value) >= MIN_SECONDS;
+}
+
+function appendVary(res: Response, fieldNames: readonly string[]): void {
+  const header = res.getHeader('Vary');
+  const existingFieldNames = (Array.isArray(header) ? header : [String(header ?? '')])
+    .join(',')
+    .split(',')
+    .map((fieldName) => fieldName.trim())
+    .filter(Boolean);
+
+  if (existingFieldNames.includes('*')) {
+    return;
+  }
+
+  const lowerCaseFieldNames = existingFieldNames.map((fieldName) => fieldName.toLowerCase());
+
+  fieldNames.forEach((fieldName) => {
+    if (!lowerCaseFieldNames.includes(fieldName.toLowerCase())) {
+      existingFieldNames.push(fieldName);
+      lowerCaseFieldNames.push(fieldName.toLowerCase());
+    }
+  });
+
+  res.setHeader('Vary', existingFieldNames.join(', '));
+}
+
+export function parseCachePolicy(cachePolicy: unknown, name: string): CachePolicy {
+  if (cachePolicy == null) {
+    return {};
+  }
+
+  assert(isObject(cachePolicy), `${name} must be an object.`);
+
+  const { maxAge, scope, staleWhileRevalidate } = cachePolicy;
+  const parsedCachePolicy: CachePolicy = {};
+
+  if (maxAge != null) {
+    assert(isNonNegativeInteger(maxAge), `${name}.maxAge must be a non-negative integer.`);
+
+    parsedCachePolicy.maxAge = maxAge;
+  }
+
+  if (scope != null) {
+    assert(SCOPES.includes(scope), `${name}.scope must be "private" or "public".`);
+
+    parsedCachePolicy.scope = scope as CachePolicy['scope'];
+  }
+
+  if (staleWhileRevalidate != null) {
+    assert(
+      isNonNegativeInteger(staleWhileRevalidate),
+      `${name}.staleWhileRevalidate must be a non-negative integer.`,
+    );
+
+    parsedCachePolicy.staleWhileRevalidate = staleWhileRevalidate;
+  }
+
+  return parsedCachePolicy;
+}
+
+function formatCachePolicy({
+  maxAge = DEFAULT_MAX_AGE,
+  scope = 'public',
+  staleWhileRevalidate,
+}: CachePolicy): string {
+  return [
+    scope,
+    `max-age=${maxAge}`,
+    staleWhileRevalidate == null ? null : `stale-while-revalidate=${staleWhileRevalidate}`,
+  ]
+    .filter(nonNull)
+    .join(', ');
+}
+
+function getETag(
+  persistedQuery: ResolvedPersistedQuery,
+  searchParams: URLSearchParams,
+  body: unknown,
+): string {
+  const hash = createHash('sha1')
+    .update(
+      JSON.stringify([
+        persistedQuery.queryId,
+        persistedQuery.query,
+        getRequestParam(searchParams, body, 'operationName'),
+        getRequestParam(searchParams, body, 'variables'),
+      ]),
+    )
+    .digest('hex');
+
+  return `W/"${hash}"`;
+}
+
+function onWriteHead(res: Response, listener: (statusCode: number) => void): void {
+  const writeHead = res.writeHead.bind(res) as (...args: unknown[]) => Response;
+
+  res.writeHead = ((statusCode: number, ...args: unknown[]): Response => {
+    listener(statusCode);
+
+    return writeHead(statusCode, ...args);
+  }) as Response['writeHead'];
+}
+
+export function setCacheHeaders({
+  body,
+  cacheControl,
+  persistedQuery,
+  req,
+  res,
+  searchParams,
+}: Param): void {
+  if (!CACHEABLE_METHODS.includes(req.method)) {
+    return;
+  }
+
+  if (cacheControl.vary.length) {
+    appendVary(res, cacheControl.vary);
+  }
+
+  if (persistedQuery.operation?.operation !== 'query') {
+    res.setHeader('Cache-Control', 'no-store');
+
+    return;
+  }
+
+  const cachePolicy = formatCachePolicy({
+    ...cacheControl.policy,
+    ...parseCachePolicy(
+      persistedQuery.cachePolicy,
+      `The cachePolicy of query ID "${persistedQuery.queryId}"`,
+    ),
+  });
+
+  if (cacheControl.etag) {
+    res.setHeader('ETag', getETag(persistedQuery, searchParams, body));
+  }
+
+  onWriteHead(res, (statusCode) => {
+    if (statusCode !== HTTP_STATUS_OK && statusCode !== HTTP_STATUS_NOT_MODIFIED) {
+      res.removeHeader('ETag');
+
+      return;
+    }
+
+    res.setHeader('Cache-Control', cachePolicy);
+  });
+}
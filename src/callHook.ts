@@ -0,0 +1,21 @@
+import { isPromiseLike } from './typeguards';
+
+/**
+ * Calls a hook, such as `options.onResolve`, and logs the error it throws or
+ * the rejection of the promise it returns, if any, so that a failing hook does
+ * not make the request fail.
+ */
+export function callHook<TArgs extends unknown[]>(
+  hook: (...hookArgs: TArgs) => unknown,
+  ...args: TArgs
+): void {
+  try {
+    const result = hook(...args);
+
+    if (isPromiseLike(result)) {
+      Promise.resolve(result).catch(console.error);
+    }
+  } catch (unknownError: unknown) {
+    console.error(unknownError);
+  }
+}
@@ -1,10 +1,22 @@
 export const CONTENT_TYPE_FORM_URL_ENCODED = 'application/x-www-form-urlencoded';
+export const CONTENT_TYPE_GRAPHQL = 'application/graphql';
 export const CONTENT_TYPE_JSON = 'application/json';
+export const CONTENT_TYPE_MULTIPART_FORM_DATA = 'multipart/form-data';
+
+export const HEADER_CLIENT_NAME = 'apollographql-client-name';
+export const HEADER_CLIENT_VERSION = 'apollographql-client-version';
 
 export const HTTP_STATUS_OK = 200;
+export const HTTP_STATUS_NOT_MODIFIED = 304;
 export const HTTP_STATUS_BAD_REQUEST = 400;
+export const HTTP_STATUS_METHOD_NOT_ALLOWED = 405;
 export const HTTP_STATUS_PAYLOAD_TOO_LARGE = 413;
 export const HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE = 415;
 export const HTTP_STATUS_INTERNAL_SERVER_ERROR = 500;
 
+export const UNIT_BYTE = 1;
 export const UNIT_KIB = 1024;
+export const UNIT_MIB = UNIT_KIB * UNIT_KIB;
+export const UNIT_GIB = UNIT_MIB * UNIT_KIB;
+
+export const APQ_VERSION = 1;
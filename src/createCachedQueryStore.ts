@@ -0,0 +1,139 @@
+import { assert } from './assert';
+import type {
+  CachedQueryStore,
+  CacheOptions,
+  Maybe,
+  PersistedQuery,
+  PromiseOrValue,
+  QueryStore,
+  Request,
+} from './types';
+
+const DEFAULT_MAX_SIZE = 1000;
+const MIN_MAX_SIZE = 1;
+const MIN_TTL = 0;
+
+interface CacheEntry {
+  expiresAt: number;
+  query: Maybe<PersistedQuery>;
+}
+
+/**
+ * Wraps a query store with an in-memory LRU cache, so that repeated lookups of
+ * the same query ID do not reach the underlying store. The cache is keyed by
+ * query ID only, so the underlying store must return the same query for a
+ * query ID regardless of the context of the request.
+ * @param queryStore The query store to cache.
+ * @param options Options to customize the cache behavior.
+ * @returns A query store with the same `get` and `set` methods as `queryStore`,
+ * plus methods to inspect and clear the cache.
+ * @example
+ * const queryMap = createCachedQueryStore(
+ *   createFunctionQueryStore((queryId) => getQueryTextFromDatabase(queryId)),
+ *   { maxSize: 500, negativeTtl: 5000 },
+ * );
+ */
+export function createCachedQueryStore<TRequest = Request>(
+  queryStore: QueryStore<TRequest>,
+  options: CacheOptions = {},
+): CachedQueryStore<TRequest> {
+  const { maxSize = DEFAULT_MAX_SIZE, ttl = Infinity, negativeTtl = MIN_TTL } = options;
+
+  assert(
+    Number.isInteger(maxSize) && maxSize >= MIN_MAX_SIZE,
+    'The maxSize option of createCachedQueryStore must be a positive integer.',
+  );
+  assert(ttl >= MIN_TTL, 'The ttl option of createCachedQueryStore must be a non-negative number.');
+  assert(
+    negativeTtl >= MIN_TTL,
+    'The negativeTtl option of createCachedQueryStore must be a non-negative number.',
+  );
+
+  const cache = new Map<string, CacheEntry>();
+  let hits = 0;
+  let misses = 0;
+
+  function cacheQuery(queryId: string, query: Maybe<PersistedQuery>): void {
+    const entryTtl = query == null ? negativeTtl : ttl;
+
+    cache.delete(queryId);
+
+    if (entryTtl <= MIN_TTL) {
+      return;
+    }
+
+    cache.set(queryId, { expiresAt: Date.now() + entryTtl, query });
+
+    if (cache.size > maxSize) {
+      for (const leastRecentlyUsedQueryId of cache.keys()) {
+        cache.delete(leastRecentlyUsedQueryId);
+
+        break;
+      }
+    }
+  }
+
+  function getCachedEntry(queryId: string): Maybe<CacheEntry> {
+    const entry = cache.get(queryId);
+
+    if (entry == null) {
+      return null;
+    }
+
+    cache.delete(queryId);
+
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    cache.set(queryId, entry);
+
+    return entry;
+  }
+
+  const cachedQueryStore: CachedQueryStore<TRequest> = {
+    get: async (queryId, context) => {
+      const entry = getCachedEntry(queryId);
+
+      if (entry != null) {
+        hits++;
+
+        return entry.query;
+      }
+
+      misses++;
+
+      const query = await queryStore.get(queryId, context);
+
+      cacheQuery(queryId, query);
+
+      return query;
+    },
+    clear: () => {
+      cache.clear();
+    },
+    delete: (queryId) => {
+      cache.delete(queryId);
+    },
+    getStats: () => ({ hits, misses, size: cache.size }),
+  };
+
+  if (queryStore.entries != null) {
+    const { entries } = queryStore;
+
+    cachedQueryStore.entries = (): PromiseOrValue<Iterable<[string, string]>> =>
+      entries.call(queryStore);
+  }
+
+  if (queryStore.set != null) {
+    const { set } = queryStore;
+
+    cachedQueryStore.set = async (queryId, query): Promise<void> => {
+      await set.call(queryStore, queryId, query);
+
+      cacheQuery(queryId, query);
+    };
+  }
+
+  return cachedQueryStore;
+}
@@ -0,0 +1,203 @@
+import { readdir, stat, watch } from 'fs';
+import type { GraphQLSchema } from 'graphql';
+import { isSchema } from 'graphql';
+import path from 'path';
+import { promisify } from 'util';
+import { assert } from './assert';
+import { loadManifest } from './loadManifest';
+import { isString } from './typeguards';
+import type { FileQueryStore, FileQueryStoreOptions, ManifestFormat, Maybe } from './types';
+import { formatValidationReport, validatePersistedQueries } from './validatePersistedQueries';
+
+const DEFAULT_DEBOUNCE_MILLISECONDS = 100;
+const MANIFEST_FILE_EXTENSION = '.json';
+
+function ignore(): void {
+  // Errors are reported through onReloadError.
+}
+
+const readdirAsync = promisify(readdir);
+const statAsync = promisify(stat);
+
+async function loadManifests(
+  manifestPath: string,
+  isDirectory: boolean,
+  format?: ManifestFormat,
+): Promise<Record<string, string>> {
+  if (!isDirectory) {
+    return loadManifest(manifestPath, { format });
+  }
+
+  const fileNames = (await readdirAsync(manifestPath))
+    .filter((fileName) => path.extname(fileName) === MANIFEST_FILE_EXTENSION)
+    .sort((a, b) => a.localeCompare(b));
+  const manifests = await Promise.all(
+    fileNames.map(async (fileName) => {
+      const filePath = path.join(manifestPath, fileName);
+
+      return { filePath, manifestQueryMap: await loadManifest(filePath, { format }) };
+    }),
+  );
+  const queryMap: Record<string, string> = {};
+
+  manifests.forEach(({ filePath, manifestQueryMap }) => {
+    Object.entries(manifestQueryMap).forEach(([queryId, query]) => {
+      assert(
+        !Object.prototype.hasOwnProperty.call(queryMap, queryId) || queryMap[queryId] === query,
+        `Invalid persisted query manifest "${filePath}": the query ID "${queryId}" maps to a different query in another manifest of "${manifestPath}".`,
+      );
+
+      queryMap[queryId] = query;
+    });
+  });
+
+  return queryMap;
+}
+
+function assertValidQueryMap(queryMap: Record<string, string>, schema: Maybe<GraphQLSchema>): void {
+  if (schema == null) {
+    return;
+  }
+
+  const report = validatePersistedQueries(schema, Object.entries(queryMap));
+
+  assert(!report.invalid.length, formatValidationReport(report));
+}
+
+interface WatchParam {
+  debounce: number;
+  isDirectory: boolean;
+  manifestPath: string;
+  onChange: () => void;
+}
+
+function watchManifests({ debounce, isDirectory, manifestPath, onChange }: WatchParam): () => void {
+  const watchedPath = isDirectory ? manifestPath : path.dirname(manifestPath);
+  const watchedFileName = path.basename(manifestPath);
+  let debounceTimeout: Maybe<NodeJS.Timeout> = null;
+
+  const watcher = watch(watchedPath, { persistent: false }, (_, fileName) => {
+    if (!isDirectory && fileName !== watchedFileName) {
+      return;
+    }
+
+    if (debounceTimeout != null) {
+      clearTimeout(debounceTimeout);
+    }
+
+    debounceTimeout = setTimeout(() => {
+      debounceTimeout = null;
+      onChange();
+    }, debounce);
+  });
+
+  return (): void => {
+    if (debounceTimeout != null) {
+      clearTimeout(debounceTimeout);
+    }
+
+    watcher.close();
+  };
+}
+
+/**
+ * Creates a read-only query store backed by a persisted query manifest file or
+ * by a directory of manifest files, which are merged. When the manifests
+ * change, the store reloads them and atomically swaps the queries it serves. If
+ * the new manifests fail to load, or contain queries that are invalid against
+ * `options.schema`, the store keeps serving the previous queries.
+ * Watching starts once the path exists, even if its manifests fail to load, so
+ * that fixing them is picked up, while a missing path is reported through
+ * `onReloadError` and can be loaded later with `reload`.
+ * @param options Options to specify the manifest path and the reload behavior.
+ * @returns A query store with methods to reload the manifests and stop
+ * watching them.
+ * @example
+ * const queryMap = createFileQueryStore({
+ *   path: './persisted-query-manifest.json',
+ *   onReload: ({ queryCount }) => console.log(`Loaded ${queryCount} queries.`),
+ * });
+ *
+ * app.use('/graphql', persistedQueries({ queryMap }), graphqlHTTP({ schema }));
+ */
+export function createFileQueryStore(options: FileQueryStoreOptions): FileQueryStore {
+  const {
+    debounce = DEFAULT_DEBOUNCE_MILLISECONDS,
+    format,
+    onReload,
+    onReloadError = console.error,
+    path: manifestPath,
+    schema,
+    watch: shouldWatch = true,
+  } = options;
+
+  assert(isString(manifestPath), 'The path option of createFileQueryStore must be a string.');
+  assert(
+    schema == null || isSchema(schema),
+    'The schema option of createFileQueryStore must be a GraphQLSchema.',
+  );
+
+  let queryMap: Maybe<Record<string, string>> = null;
+  let lastLoad: Promise<void> = Promise.resolve();
+  let stopWatching: Maybe<() => void> = null;
+  let isClosed = false;
+
+  async function scheduleLoad(): Promise<Record<string, string>> {
+    const loadPromise = lastLoad.then(async () => {
+      try {
+        const isDirectory = (await statAsync(manifestPath)).isDirectory();
+
+        if (shouldWatch && stopWatching == null && !isClosed) {
+          stopWatching = watchManifests({
+            debounce,
+            isDirectory,
+            manifestPath,
+            onChange: () => {
+              scheduleLoad().catch(ignore);
+            },
+          });
+        }
+
+        const nextQueryMap = await loadManifests(manifestPath, isDirectory, format);
+
+        assertValidQueryMap(nextQueryMap, schema);
+
+        queryMap = nextQueryMap;
+        onReload?.({ path: manifestPath, queryCount: Object.keys(nextQueryMap).length });
+
+        return nextQueryMap;
+      } catch (unknownError: unknown) {
+        onReloadError(unknownError);
+
+        throw unknownError;
+      }
+    });
+
+    lastLoad = loadPromise.then(ignore, ignore);
+
+    return loadPromise;
+  }
+
+  const initialLoad = scheduleLoad();
+
+  initialLoad.catch(ignore);
+
+  return {
+    get: async (queryId): Promise<Maybe<string>> => {
+      const currentQueryMap = queryMap ?? (await initialLoad);
+
+      return Object.prototype.hasOwnProperty.call(currentQueryMap, queryId)
+        ? currentQueryMap[queryId]
+        : null;
+    },
+    entries: async (): Promise<[string, string][]> =>
+      Object.entries(queryMap ?? (await initialLoad)),
+    close: (): void => {
+      isClosed = true;
+      stopWatching?.();
+    },
+    reload: async (): Promise<void> => {
+      await scheduleLoad();
+    },
+  };
+}
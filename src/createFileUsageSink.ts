@@ -0,0 +1,83 @@
+import { readFile, rename, writeFile } from 'fs';
+import { promisify } from 'util';
+import { assert } from './assert';
+import { isObject } from './typeguards';
+import type { Maybe, QueryUsage, UsageSink } from './types';
+
+const JSON_INDENTATION = 2;
+
+const readFileAsync = promisify(readFile);
+const renameAsync = promisify(rename);
+const writeFileAsync = promisify(writeFile);
+
+function isQueryUsage(value: unknown): value is QueryUsage {
+  return (
+    isObject(value) &&
+    Number.isFinite(value.calls) &&
+    Number.isFinite(value.firstSeen) &&
+    Number.isFinite(value.lastSeen)
+  );
+}
+
+function parseUsage(json: string, filePath: string): Record<string, QueryUsage> {
+  let usage: unknown = null;
+
+  try {
+    usage = JSON.parse(json);
+  } catch (unknownError: unknown) {
+    /* istanbul ignore next: JSON.parse only throws syntax errors */
+    const errorMessage =
+      unknownError instanceof Error ? unknownError.message : String(unknownError);
+
+    throw new TypeError(
+      `Invalid usage file "${filePath}": the file is not valid JSON (${errorMessage}).`,
+    );
+  }
+
+  assert(
+    isObject(usage) && !Array.isArray(usage),
+    `Invalid usage file "${filePath}": expected an object mapping query IDs to their usage.`,
+  );
+
+  Object.entries(usage).forEach(([queryId, queryUsage]) => {
+    assert(
+      isQueryUsage(queryUsage),
+      `Invalid usage file "${filePath}": the query ID "${queryId}" must map to an object with numeric "calls", "firstSeen", and "lastSeen".`,
+    );
+  });
+
+  return usage as Record<string, QueryUsage>;
+}
+
+/**
+ * Creates a usage sink that saves the usage of query IDs to a JSON file, which
+ * maps each query ID to its number of calls and to the times at which it was
+ * first and last seen. The file is written to a temporary file first and then
+ * renamed, so that it is never left half-written. A missing file is treated as
+ * no usage.
+ * @param filePath The path to the JSON file.
+ * @returns A usage sink to pass as the `sink` option of `createUsageRecorder`.
+ * @example
+ * const usageRecorder = createUsageRecorder({ sink: createFileUsageSink('./usage.json') });
+ */
+export function createFileUsageSink(filePath: string): UsageSink {
+  return {
+    load: async (): Promise<Maybe<Record<string, QueryUsage>>> => {
+      try {
+        return parseUsage(await readFileAsync(filePath, 'utf8'), filePath);
+      } catch (error: unknown) {
+        if (isObject(error) && error.code === 'ENOENT') {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+    save: async (usage): Promise<void> => {
+      const temporaryFilePath = `${filePath}.tmp`;
+
+      await writeFileAsync(temporaryFilePath, JSON.stringify(usage, null, JSON_INDENTATION));
+      await renameAsync(temporaryFilePath, filePath);
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { performance } from 'perf_hooks';
+import { URLSearchParams } from 'url';
+import { assert } from './assert';
+import { setCacheHeaders } from './cacheControl';
+import { callHook } from './callHook';
+import { getRequestOutcome } from './createMetrics';
+import { handleError, toErrorResult } from './handleError';
+import { formatHttpError, setHeaders, toHttpError } from './httpErrors';
+import { restoreMultipartBody } from './multipartBody';
+import { parseOptions } from './parseOptions';
+import { parseRequestBodyIfNecessary } from './parseRequestBodyIfNecessary';
+import { resolveRequest } from './resolveRequest';
+import { sendJson } from './sendJson';
+import { endTrace, recordSpan, runInTraceContext, setTraceAttributes } from './tracing';
+import { nonNull } from './typeguards';
+import type { Handler, Options, PersistedQueriesMiddleware, Request, ResolveInput } from './types';
+
+function toResolveInput(req: Request): ResolveInput {
+  return { body: req.body, headers: req.headers, method: String(req.method), url: req.url };
+}
+
+/**
+ * Creates the handler shared by the `persistedQueries` middleware and the
+ * framework adapters. It resolves the persisted query from the method, URL,
+ * headers, and parsed body of the request, like `createPersistedQueryResolver`,
+ * but passes the request itself to the callbacks that receive the request, and
+ * exposes the decision of `options.strict` as `req.persistedQuery.strict`. It
+ * calls `next` when the request should continue to the GraphQL handler, or
+ * with an error when `options.errorHandling` is `"next"`, and otherwise sends
+ * an error response. The returned promise settles once the request is handled,
+ * and the `ready` method resolves once the options are resolved.
+ */
+export function createHandler(
+  options: Options,
+): Handler & Pick<PersistedQueriesMiddleware, 'ready'> {
+  assert(nonNull(options), 'You must provide options to the persistedQueries middleware.');
+
+  const parsedOptions = parseOptions(options);
+
+  parsedOptions.catch(console.error);
+
+  const handler: Handler = async function persistedQueriesMiddleware(
+    req,
+    res,
+    next,
+  ): Promise<void> {
+    try {
+      const optionsStart = performance.now();
+      const resolvedOptions = await parsedOptions;
+
+      if (resolvedOptions.tracing != null) {
+        resolvedOptions.tracing.startTrace(req, optionsStart);
+        recordSpan(req, 'resolveOptions', optionsStart);
+      }
+
+      const parseStart = performance.now();
+
+      await parseRequestBodyIfNecessary(req, resolvedOptions);
+
+      recordSpan(req, 'parseBody', parseStart);
+
+      callHook(resolvedOptions.onBodyParsed, {
+        body: req.body,
+        duration: performance.now() - parseStart,
+        req,
+      });
+
+      const result = await resolveRequest(resolvedOptions, toResolveInput(req), req);
+
+      if (result.type === 'error') {
+        endTrace(req, result.error);
+        runInTraceContext(req, () => {
+          handleError({
+            batchErrors: result.batchErrors,
+            error: result.error,
+            next,
+            options: resolvedOptions,
+            req,
+            res,
+          });
+        });
+
+        return;
+      }
+
+      req.body = result.body;
+      req.persistedQuery = { strict: result.strict };
+
+      if (result.type === 'batch' && result.errors != null) {
+        req.persistedQuery.batchErrors = result.errors.map((error) => {
+          if (error == null) {
+            return null;
+          }
+
+          callHook(resolvedOptions.onError, error, req);
+
+          return toErrorResult(resolvedOptions, error, req);
+        });
+      }
+
+      if (result.type === 'persistedQuery') {
+        const { persistedQuery } = result;
+
+        setTraceAttributes(req, {
+          operationName: persistedQuery.operation?.name?.value,
+          operationType: persistedQuery.operation?.operation,
+          outcome: persistedQuery.outcome,
+          queryId: persistedQuery.queryId,
+        });
+
+        if (resolvedOptions.cacheControl != null) {
+          setCacheHeaders({
+            body: result.body,
+            cacheControl: resolvedOptions.cacheControl,
+            persistedQuery,
+            req,
+            res,
+            searchParams: new URLSearchParams(req.url.split('?')[1]),
+          });
+        }
+      }
+
+      restoreMultipartBody(req);
+      endTrace(req);
+      runInTraceContext(req, next);
+    } catch (unknownError: unknown) {
+      const error = toHttpError(unknownError);
+      const resolvedOptions = await parsedOptions.catch(() => null);
+
+      if (resolvedOptions != null) {
+        resolvedOptions.metrics?.recordRequest(getRequestOutcome(error));
+        endTrace(req, error);
+        runInTraceContext(req, () => {
+          handleError({ error, next, options: resolvedOptions, req, res });
+        });
+
+        return;
+      }
+
+      res.statusCode = error.statusCode;
+      setHeaders(res, error);
+      sendJson(res, { data: undefined, errors: [formatHttpError(error)] });
+    }
+  };
+
+  return Object.assign(handler, {
+    ready: async (): Promise<void> => {
+      await parsedOptions;
+    },
+  });
+}
@@ -0,0 +1,235 @@
+import type { HttpError } from 'http-errors';
+import { assert } from './assert';
+import type { LookUpOutcome, Metrics, MetricsOptions, RequestOutcome } from './types';
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const BUCKET_1_MS = 0.001;
+const BUCKET_5_MS = 0.005;
+const BUCKET_10_MS = 0.01;
+const BUCKET_25_MS = 0.025;
+const BUCKET_50_MS = 0.05;
+const BUCKET_100_MS = 0.1;
+const BUCKET_250_MS = 0.25;
+const BUCKET_500_MS = 0.5;
+const BUCKET_1_S = 1;
+const DEFAULT_BUCKETS = [
+  BUCKET_1_MS,
+  BUCKET_5_MS,
+  BUCKET_10_MS,
+  BUCKET_25_MS,
+  BUCKET_50_MS,
+  BUCKET_100_MS,
+  BUCKET_250_MS,
+  BUCKET_500_MS,
+  BUCKET_1_S,
+];
+const DEFAULT_MAX_QUERY_IDS = 1000;
+const DEFAULT_PREFIX = 'persisted_queries_';
+const INITIAL_COUNT = 0;
+const MILLISECONDS_PER_SECOND = 1000;
+const MIN_BUCKET = 0;
+const MIN_MAX_QUERY_IDS = 1;
+const OTHER_QUERY_ID = '__other__';
+
+const PARSE_ERROR_CODES = new Set([
+  'BODY_TOO_LARGE',
+  'INVALID_REQUEST_BODY',
+  'UNSUPPORTED_CHARSET',
+  'UNSUPPORTED_CONTENT_ENCODING',
+]);
+
+interface Histogram {
+  bucketCounts: Map<number, number>;
+  count: number;
+  sum: number;
+}
+
+/**
+ * Classifies an error of the middleware as the outcome of the request that
+ * caused it, as counted by `Metrics`.
+ */
+export function getRequestOutcome(error: HttpError): RequestOutcome {
+  const { code } = error.extensions as Record<string, unknown>;
+
+  if (code === 'PERSISTED_QUERY_REQUIRED') {
+    return 'strict_rejection';
+  }
+
+  if (code === 'PERSISTED_QUERY_NOT_FOUND') {
+    return 'miss';
+  }
+
+  return PARSE_ERROR_CODES.has(String(code)) ? 'parse_error' : 'error';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/gu, '\\\\').replace(/"/gu, '\\"').replace(/\n/gu, '\\n');
+}
+
+function formatSample(name: string, labels: [string, string][], value: number): string {
+  const formattedLabels = labels
+    .map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`)
+    .join(',');
+
+  return `${name}{${formattedLabels}} ${value}`;
+}
+
+/**
+ * Creates a metrics collector to pass as the `metrics` option of the
+ * middleware. It counts requests by outcome, measures the latency of lookups
+ * in a histogram, and counts the usage of each query ID, up to `maxQueryIds`
+ * distinct query IDs. The metrics are rendered in the Prometheus text
+ * exposition format, so they can be served without any extra dependency.
+ * @param options Options to customize the metrics.
+ * @returns A metrics collector.
+ * @example
+ * const metrics = createMetrics();
+ *
+ * app.use('/graphql', persistedQueries({ metrics, queryMap }), graphqlHTTP({ schema }));
+ * app.get('/metrics', (req, res) => {
+ *   res.type(metrics.contentType).send(metrics.render());
+ * });
+ */
+export function createMetrics(options: MetricsOptions = {}): Metrics {
+  const {
+    buckets: unsortedBuckets = DEFAULT_BUCKETS,
+    maxQueryIds = DEFAULT_MAX_QUERY_IDS,
+    prefix = DEFAULT_PREFIX,
+  } = options;
+
+  assert(
+    Array.isArray(unsortedBuckets) &&
+      unsortedBuckets.every((bucket) => Number.isFinite(bucket) && bucket > MIN_BUCKET),
+    'The buckets option of createMetrics must be an array of positive numbers.',
+  );
+  assert(
+    Number.isInteger(maxQueryIds) && maxQueryIds >= MIN_MAX_QUERY_IDS,
+    'The maxQueryIds option of createMetrics must be a positive integer.',
+  );
+  assert(
+    /^[a-zA-Z_:][a-zA-Z0-9_:]*$/u.test(prefix),
+    'The prefix option of createMetrics must be a valid Prometheus metric name prefix.',
+  );
+
+  const buckets = [...new Set(unsortedBuckets)].sort((a, b) => a - b);
+  const requests = new Map<RequestOutcome, number>();
+  const lookUps = new Map<LookUpOutcome, Histogram>();
+  const queryIds = new Map<string, number>();
+
+  function increment<TKey>(counters: Map<TKey, number>, key: TKey): void {
+    let count = counters.get(key) ?? INITIAL_COUNT;
+
+    count++;
+    counters.set(key, count);
+  }
+
+  function getHistogram(outcome: LookUpOutcome): Histogram {
+    const histogram = lookUps.get(outcome) ?? {
+      bucketCounts: new Map(buckets.map((bucket) => [bucket, INITIAL_COUNT])),
+      count: INITIAL_COUNT,
+      sum: INITIAL_COUNT,
+    };
+
+    lookUps.set(outcome, histogram);
+
+    return histogram;
+  }
+
+  function renderFamily(name: string, type: string, help: string, samples: string[]): string {
+    return [`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} ${type}`, ...samples]
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+
+  const metrics: Metrics = {
+    contentType: CONTENT_TYPE,
+    observeLookUp: (outcome, queryId, duration) => {
+      const histogram = getHistogram(outcome);
+      const seconds = duration / MILLISECONDS_PER_SECOND;
+
+      for (const bucket of buckets) {
+        if (seconds <= bucket) {
+          increment(histogram.bucketCounts, bucket);
+        }
+      }
+
+      histogram.count++;
+      histogram.sum += seconds;
+
+      if (outcome === 'found' || outcome === 'registered') {
+        increment(
+          queryIds,
+          queryIds.has(queryId) || queryIds.size < maxQueryIds ? queryId : OTHER_QUERY_ID,
+        );
+      }
+    },
+    recordRequest: (outcome) => {
+      increment(requests, outcome);
+    },
+    render: () => {
+      const lookUpSamples: string[] = [];
+
+      for (const [outcome, histogram] of lookUps) {
+        const name = `${prefix}lookup_duration_seconds`;
+
+        for (const [bucket, count] of histogram.bucketCounts) {
+          lookUpSamples.push(
+            formatSample(
+              `${name}_bucket`,
+              [
+                ['le', String(bucket)],
+                ['outcome', outcome],
+              ],
+              count,
+            ),
+          );
+        }
+
+        lookUpSamples.push(
+          formatSample(
+            `${name}_bucket`,
+            [
+              ['le', '+Inf'],
+              ['outcome', outcome],
+            ],
+            histogram.count,
+          ),
+          formatSample(`${name}_sum`, [['outcome', outcome]], histogram.sum),
+          formatSample(`${name}_count`, [['outcome', outcome]], histogram.count),
+        );
+      }
+
+      return [
+        renderFamily(
+          'requests_total',
+          'counter',
+          'Requests handled by the persisted queries middleware, by outcome.',
+          [...requests].map(([outcome, count]) =>
+            formatSample(`${prefix}requests_total`, [['outcome', outcome]], count),
+          ),
+        ),
+        renderFamily(
+          'lookup_duration_seconds',
+          'histogram',
+          'Latency of persisted query lookups, by outcome.',
+          lookUpSamples,
+        ),
+        renderFamily(
+          'query_id_requests_total',
+          'counter',
+          'Requests that resolved a persisted query, by query ID.',
+          [...queryIds].map(([queryId, count]) =>
+            formatSample(`${prefix}query_id_requests_total`, [['query_id', queryId]], count),
+          ),
+        ),
+      ].join('');
+    },
+    reset: () => {
+      requests.clear();
+      lookUps.clear();
+      queryIds.clear();
+    },
+  };
+
+  return metrics;
+}
@@ -0,0 +1,47 @@
+import { assert } from './assert';
+import { toHttpError } from './httpErrors';
+import { parseOptions } from './parseOptions';
+import { resolveRequest } from './resolveRequest';
+import { nonNull } from './typeguards';
+import type { Options, PersistedQueryResolver, ResolveInput, ResolveResult } from './types';
+
+/**
+ * Creates a function that resolves the persisted query of a request outside
+ * of an HTTP middleware, such as in a WebSocket server or a serverless
+ * handler. It takes the method, URL or search params, headers, and parsed body
+ * of the request and resolves with a result whose `type` is `"persistedQuery"`
+ * when a persisted query was resolved, `"batch"` when the operations of a
+ * batch were resolved, `"passthrough"` when the request doesn't use a
+ * persisted query, and `"error"` when the request must be rejected. It never
+ * touches a response, and errors are returned rather than passed to
+ * `options.onError`. Callbacks that receive the request, such as `strict`,
+ * `resolveNamespace`, `onResolve`, and the `get` method of the query map, get
+ * the input itself.
+ * @param options The options of the `persistedQueries` middleware.
+ * @returns A function that resolves the persisted query of a request.
+ * @example
+ * const resolvePersistedQuery = createPersistedQueryResolver({ queryMap, strict: true });
+ *
+ * const result = await resolvePersistedQuery({ body: event.body, method: 'POST' });
+ *
+ * if (result.type === 'error') {
+ *   return { statusCode: result.error.statusCode, body: result.error.message };
+ * }
+ */
+export function createPersistedQueryResolver(
+  options: Options<ResolveInput>,
+): PersistedQueryResolver {
+  assert(nonNull(options), 'You must provide options to createPersistedQueryResolver.');
+
+  const parsedOptions = parseOptions(options);
+
+  parsedOptions.catch(console.error);
+
+  return async function resolvePersistedQuery(input): Promise<ResolveResult> {
+    try {
+      return await resolveRequest(await parsedOptions, input);
+    } catch (unknownError: unknown) {
+      return { error: toHttpError(unknownError), type: 'error' };
+    }
+  };
+}
@@ -0,0 +1,124 @@
+import { assert } from './assert';
+import { isFunction, isObject } from './typeguards';
+import type { Maybe, QueryUsage, UsageRecorder, UsageRecorderOptions } from './types';
+
+const DEFAULT_FLUSH_INTERVAL_MILLISECONDS = 60000;
+const MIN_FLUSH_INTERVAL = 0;
+const RECORDED_CALLS = 1;
+
+function ignore(): void {
+  // Errors are reported through onFlushError.
+}
+
+/**
+ * Creates a usage recorder to pass as the `usageRecorder` option of the
+ * middleware. It tracks, for each query ID resolved to a persisted query, the
+ * number of calls and when it was first and last seen. The usage is kept in
+ * memory and periodically flushed to a sink, such as one created with
+ * `createFileUsageSink`, so that it survives restarts. If the usage fails to
+ * load from the sink, it is not flushed, so that the saved usage isn't
+ * overwritten.
+ * @param options Options to specify the sink and the flush behavior.
+ * @returns A usage recorder with methods to read the usage, flush it, and stop
+ * flushing it.
+ * @example
+ * const usageRecorder = createUsageRecorder({ sink: createFileUsageSink('./usage.json') });
+ *
+ * app.use('/graphql', persistedQueries({ queryMap, usageRecorder }), graphqlHTTP({ schema }));
+ */
+export function createUsageRecorder(options: UsageRecorderOptions = {}): UsageRecorder {
+  const {
+    flushInterval = DEFAULT_FLUSH_INTERVAL_MILLISECONDS,
+    onFlushError = console.error,
+    sink,
+  } = options;
+
+  assert(
+    flushInterval >= MIN_FLUSH_INTERVAL,
+    'The flushInterval option of createUsageRecorder must be a non-negative number.',
+  );
+  assert(
+    sink == null || (isObject(sink) && isFunction(sink.save)),
+    'The sink option of createUsageRecorder must have a save method.',
+  );
+
+  const usage = new Map<string, QueryUsage>();
+  let lastFlush: Promise<void> = Promise.resolve();
+  let flushIntervalId: Maybe<NodeJS.Timeout> = null;
+
+  function merge(queryId: string, { calls, firstSeen, lastSeen }: QueryUsage): void {
+    const queryUsage = usage.get(queryId);
+
+    usage.set(
+      queryId,
+      queryUsage == null
+        ? { calls, firstSeen, lastSeen }
+        : {
+            calls: queryUsage.calls + calls,
+            firstSeen: Math.min(queryUsage.firstSeen, firstSeen),
+            lastSeen: Math.max(queryUsage.lastSeen, lastSeen),
+          },
+    );
+  }
+
+  async function load(): Promise<void> {
+    const loadedUsage = await sink?.load?.();
+
+    Object.entries(loadedUsage ?? {}).forEach(([queryId, queryUsage]) => {
+      merge(queryId, queryUsage);
+    });
+  }
+
+  const initialLoad = load();
+
+  initialLoad.catch(onFlushError);
+
+  async function getUsage(): Promise<Record<string, QueryUsage>> {
+    await initialLoad;
+
+    const usageRecord: Record<string, QueryUsage> = {};
+
+    usage.forEach((queryUsage, queryId) => {
+      usageRecord[queryId] = { ...queryUsage };
+    });
+
+    return usageRecord;
+  }
+
+  async function flush(): Promise<void> {
+    const flushPromise = lastFlush.then(async () => {
+      if (sink != null) {
+        await sink.save(await getUsage());
+      }
+    });
+
+    lastFlush = flushPromise.then(ignore, ignore);
+
+    return flushPromise;
+  }
+
+  if (sink != null && flushInterval > MIN_FLUSH_INTERVAL) {
+    flushIntervalId = setInterval(() => {
+      flush().catch(onFlushError);
+    }, flushInterval);
+    flushIntervalId.unref();
+  }
+
+  return {
+    close: async (): Promise<void> => {
+      if (flushIntervalId != null) {
+        clearInterval(flushIntervalId);
+        flushIntervalId = null;
+      }
+
+      await flush();
+    },
+    flush,
+    getUsage,
+    record: (queryId): void => {
+      const now = Date.now();
+
+      merge(queryId, { calls: RECORDED_CALLS, firstSeen: now, lastSeen: now });
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { assert } from './assert';
+import type { QueryUsage } from './types';
+
+const MIN_WINDOW = 0;
+
+/**
+ * Lists the persisted queries that were not used within a time window, so that
+ * they can be pruned from the manifests. A query is unused if its query ID was
+ * never recorded, or if it was last seen before the start of the window. Since
+ * only the usage recorded since a usage recorder was set up is known, the
+ * window should not start before that.
+ * @param queries The persisted queries as an iterable of query ID and query
+ * text pairs, such as the result of `Object.entries(queryMap)`.
+ * @param usage The usage of query IDs, as returned by the `getUsage` method of
+ * a usage recorder.
+ * @param window The length of the window in milliseconds, ending now.
+ * @returns The IDs of the unused queries, in the order of `queries`.
+ * @example
+ * const unusedQueryIds = findUnusedPersistedQueries(
+ *   Object.entries(queryMap),
+ *   await usageRecorder.getUsage(),
+ *   30 * 24 * 60 * 60 * 1000,
+ * );
+ */
+export function findUnusedPersistedQueries(
+  queries: Iterable<[string, string]>,
+  usage: Record<string, QueryUsage>,
+  window: number,
+): string[] {
+  assert(
+    window >= MIN_WINDOW,
+    'The window passed to findUnusedPersistedQueries must be a non-negative number.',
+  );
+
+  const windowStart = Date.now() - window;
+  const unusedQueryIds: string[] = [];
+
+  for (const [queryId] of queries) {
+    const queryUsage = Object.prototype.hasOwnProperty.call(usage, queryId) ? usage[queryId] : null;
+
+    if (queryUsage == null || queryUsage.lastSeen < windowStart) {
+      unusedQueryIds.push(queryId);
+    }
+  }
+
+  return unusedQueryIds;
+}
@@ -0,0 +1,53 @@
+import { HEADER_CLIENT_NAME, HEADER_CLIENT_VERSION } from './constants';
+import { isString } from './typeguards';
+import type {
+  LooseResolveNamespaceFn,
+  ParsedNamespace,
+  RequestContext,
+  ResolveInput,
+} from './types';
+
+function getHeader(req: Pick<ResolveInput, 'headers'>, name: string): string | null {
+  const value = req.headers?.[name];
+
+  return isString(value) && value !== '' ? value : null;
+}
+
+/**
+ * Returns the candidate namespaces of a request based on the
+ * `apollographql-client-name` and `apollographql-client-version` headers,
+ * namely `name@version` followed by `name`.
+ */
+export function resolveClientNamespace(req: Pick<ResolveInput, 'headers'>): string[] {
+  const name = getHeader(req, HEADER_CLIENT_NAME);
+  const version = getHeader(req, HEADER_CLIENT_VERSION);
+
+  if (name == null) {
+    return [];
+  }
+
+  return version == null ? [name] : [`${name}@${version}`, name];
+}
+
+export async function getNamespace(
+  namespaces: Map<string, ParsedNamespace>,
+  resolveNamespace: LooseResolveNamespaceFn,
+  req: RequestContext,
+): Promise<ParsedNamespace | null> {
+  if (!namespaces.size) {
+    return null;
+  }
+
+  const resolved = await resolveNamespace(req);
+  const candidates: unknown[] = Array.isArray(resolved) ? resolved : [resolved];
+
+  for (const candidate of candidates) {
+    const namespace = isString(candidate) ? namespaces.get(candidate) : null;
+
+    if (namespace != null) {
+      return namespace;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,25 @@
+import type { DocumentNode, OperationDefinitionNode } from 'graphql';
+import { getOperationAST, parse } from 'graphql';
+import { isString } from './typeguards';
+import type { Maybe } from './types';
+
+function parseDocument(query: string): DocumentNode | null {
+  try {
+    return parse(query);
+  } catch {
+    return null;
+  }
+}
+
+export function getOperation(
+  query: string,
+  operationName: unknown,
+): Maybe<OperationDefinitionNode> {
+  const document = parseDocument(query);
+
+  if (document == null) {
+    return null;
+  }
+
+  return getOperationAST(document, isString(operationName) ? operationName : null);
+}
@@ -1,67 +1,336 @@
-import httpError from 'http-errors';
-import { URLSearchParams } from 'url';
-import { HTTP_STATUS_BAD_REQUEST } from './constants';
-import { isObject, isString } from './typeguards';
-import type { LooseQueryMap, Maybe, Request } from './types';
-
-interface Param {
-  queryIdKey: string;
-  queryMap: LooseQueryMap;
-  req: Request;
+import { GraphQLError, parse } from 'graphql';
+import { performance } from 'perf_hooks';
+import type { URLSearchParams } from 'url';
+import { assertOperationAllowed } from './assertOperationAllowed';
+import { callHook } from './callHook';
+import { APQ_VERSION, HTTP_STATUS_BAD_REQUEST } from './constants';
+import { getNamespace } from './getNamespace';
+import { getOperation } from './getOperation';
+import { getPersistedQueryExtension } from './getPersistedQueryExtension';
+import { getRequestParam } from './getRequestParam';
+import { createHttpError } from './httpErrors';
+import { recordSpan } from './tracing';
+import { isObject, isString, isWritableQueryStore } from './typeguards';
+import type {
+  LooseHashFn,
+  LooseQueryStore,
+  LookUpOutcome,
+  ParsedOptions,
+  QueryMapContext,
+  RequestContext,
+  ResolvedPersistedQuery,
+} from './types';
+
+interface Param extends ParsedOptions {
+  body: unknown;
+  method: string;
+  req: RequestContext;
+  searchParams: URLSearchParams;
+}
+
+interface PersistedQueryResult<TPersistedQuery> {
+  persistedQuery: TPersistedQuery | null;
   strict: boolean;
 }
 
-export async function getPersistedQuery({
-  queryIdKey,
-  queryMap,
-  req,
-  strict,
-}: Param): Promise<Maybe<string>> {
-  const searchParams = new URLSearchParams(req.url.split('?')[1]);
+async function registerPersistedQuery(
+  queryStore: LooseQueryStore & Pick<Required<LooseQueryStore>, 'set'>,
+  queryId: string,
+  query: string,
+): Promise<string> {
+  try {
+    parse(query);
+  } catch (unknownError: unknown) {
+    /* istanbul ignore next: parse only throws GraphQL errors */
+    const errorMessage =
+      unknownError instanceof GraphQLError ? unknownError.message : String(unknownError);
 
-  if (strict && searchParams.has('query')) {
-    throw httpError(
+    throw createHttpError(
       HTTP_STATUS_BAD_REQUEST,
-      'Search params have "query" but only persisted queries are allowed.',
+      'PERSISTED_QUERY_INVALID',
+      `The query provided for query ID "${queryId}" cannot be registered: ${errorMessage}`,
     );
   }
 
-  const { body } = req;
+  await queryStore.set(queryId, query);
 
-  if (strict && isObject(body) && 'query' in body) {
-    throw httpError(
+  return query;
+}
+
+async function verifyQueryHash(
+  hashAlgorithm: LooseHashFn,
+  queryId: string,
+  query: string,
+): Promise<void> {
+  const hash = await hashAlgorithm(query);
+
+  if (hash !== queryId) {
+    throw createHttpError(
       HTTP_STATUS_BAD_REQUEST,
-      'Request body has "query" but only persisted queries are allowed.',
+      'PERSISTED_QUERY_HASH_MISMATCH',
+      `The provided query does not hash to the provided query ID "${queryId}".`,
     );
   }
+}
+
+function getPersistedQueryHash(persistedQueryExtension: unknown): string {
+  if (!isObject(persistedQueryExtension) || persistedQueryExtension.version !== APQ_VERSION) {
+    throw createHttpError(
+      HTTP_STATUS_BAD_REQUEST,
+      'INVALID_PERSISTED_QUERY_EXTENSION',
+      'Unsupported persisted query version.',
+    );
+  }
+
+  const { sha256Hash } = persistedQueryExtension;
+
+  if (!isString(sha256Hash)) {
+    throw createHttpError(
+      HTTP_STATUS_BAD_REQUEST,
+      'INVALID_PERSISTED_QUERY_EXTENSION',
+      'The "persistedQuery" extension must provide a "sha256Hash" string.',
+    );
+  }
+
+  return sha256Hash;
+}
+
+interface LookUpResult {
+  cachePolicy: unknown;
+  query: string;
+}
+
+function toLookUpResult(persistedQuery: unknown): LookUpResult | null {
+  if (isString(persistedQuery)) {
+    return { cachePolicy: null, query: persistedQuery };
+  }
+
+  if (isObject(persistedQuery) && isString(persistedQuery.query)) {
+    return { cachePolicy: persistedQuery.cachePolicy, query: persistedQuery.query };
+  }
+
+  return null;
+}
+
+async function lookUpPersistedQuery(
+  queryStores: LooseQueryStore[],
+  queryId: string,
+  context: QueryMapContext<RequestContext>,
+): Promise<LookUpResult | null> {
+  const [queryStore, ...fallbackQueryStores] = queryStores;
+
+  if (queryStore == null) {
+    return null;
+  }
+
+  const persistedQuery = toLookUpResult(await queryStore.get(queryId, context));
+
+  return persistedQuery ?? lookUpPersistedQuery(fallbackQueryStores, queryId, context);
+}
+
+interface LookUp {
+  outcome: LookUpOutcome;
+  queryId: string;
+  req: RequestContext;
+  startTime: number;
+}
+
+function reportLookUp(
+  {
+    metrics,
+    onMiss,
+    onResolve,
+    usageRecorder,
+  }: Pick<ParsedOptions, 'metrics' | 'onMiss' | 'onResolve' | 'usageRecorder'>,
+  { outcome, queryId, req, startTime }: LookUp,
+): void {
+  const duration = performance.now() - startTime;
+
+  if (outcome === 'found' || outcome === 'registered') {
+    callHook(onResolve, { duration, outcome, queryId, req });
+    usageRecorder?.record(queryId);
+  } else {
+    callHook(onMiss, { duration, outcome, queryId, req });
+  }
+
+  recordSpan(req, 'lookUp', startTime, { outcome, queryId });
+  metrics?.observeLookUp(outcome, queryId, duration);
+}
+
+async function resolvePersistedQuery({
+  allowAutoRegisterInStrictMode,
+  apq,
+  autoRegister,
+  body,
+  hashAlgorithm,
+  metrics,
+  namespaces,
+  onMiss,
+  onRejectStrict,
+  onResolve,
+  queryIdKey,
+  queryStore: rootQueryStore,
+  req,
+  resolveNamespace,
+  searchParams,
+  strict: rootStrict,
+  usageRecorder,
+  verifyHash,
+}: Param): Promise<PersistedQueryResult<Omit<ResolvedPersistedQuery, 'operation'>>> {
+  const namespace = await getNamespace(namespaces, resolveNamespace, req);
+  const {
+    queryStore,
+    queryStores,
+    strict: getStrict,
+  } = namespace ?? {
+    queryStore: rootQueryStore,
+    queryStores: [rootQueryStore],
+    strict: rootStrict,
+  };
+  const strict = Boolean(await getStrict(req));
 
+  const query = searchParams.get('query') ?? (isObject(body) ? body.query : null);
+  const hasQuery = searchParams.has('query') || (isObject(body) && 'query' in body);
   const queryId = searchParams.get(queryIdKey) ?? (isObject(body) ? body[queryIdKey] : null);
+  const persistedQueryExtension = isString(queryId)
+    ? null
+    : getPersistedQueryExtension(searchParams, body);
+  const registrationStore =
+    autoRegister && isWritableQueryStore(queryStore) && (!strict || allowAutoRegisterInStrictMode)
+      ? queryStore
+      : null;
+  const hasQueryId = isString(queryId) || persistedQueryExtension != null;
 
-  if (!isString(queryId)) {
+  if (strict && hasQuery && !(registrationStore != null && hasQueryId)) {
+    callHook(onRejectStrict, { queryId: isString(queryId) ? queryId : null, reason: 'query', req });
+
+    throw createHttpError(
+      HTTP_STATUS_BAD_REQUEST,
+      'PERSISTED_QUERY_REQUIRED',
+      searchParams.has('query')
+        ? 'Search params have "query" but only persisted queries are allowed.'
+        : 'Request body has "query" but only persisted queries are allowed.',
+    );
+  }
+
+  let lookUpId = queryId;
+
+  if (!isString(queryId) && persistedQueryExtension != null) {
+    if (!apq) {
+      if (hasQuery) {
+        return { persistedQuery: null, strict };
+      }
+
+      throw createHttpError(
+        HTTP_STATUS_BAD_REQUEST,
+        'PERSISTED_QUERY_NOT_SUPPORTED',
+        'PersistedQueryNotSupported',
+      );
+    }
+
+    lookUpId = getPersistedQueryHash(persistedQueryExtension);
+  }
+
+  if (!isString(lookUpId)) {
     if (strict) {
-      throw httpError(
+      callHook(onRejectStrict, { queryId: null, reason: 'missingQueryId', req });
+
+      throw createHttpError(
         HTTP_STATUS_BAD_REQUEST,
+        'PERSISTED_QUERY_REQUIRED',
         `Request must provide a query ID under "${queryIdKey}" key either in search params or request body.`,
       );
     }
 
-    return null;
+    return { persistedQuery: null, strict };
   }
 
-  let persistedQuery: unknown = null;
+  if (isString(query) && (verifyHash || registrationStore != null)) {
+    await verifyQueryHash(hashAlgorithm, lookUpId, query);
+  }
 
-  if (typeof queryMap === 'function') {
-    persistedQuery = await queryMap(queryId);
-  } else if (Object.prototype.hasOwnProperty.call(queryMap, queryId)) {
-    persistedQuery = queryMap[queryId];
+  const lookUpStart = performance.now();
+  const persistedQuery = await lookUpPersistedQuery(queryStores, lookUpId, {
+    body,
+    queryIdKey,
+    req,
+    searchParams,
+  });
+
+  if (persistedQuery != null) {
+    reportLookUp(
+      { metrics, onMiss, onResolve, usageRecorder },
+      { outcome: 'found', queryId: lookUpId, req, startTime: lookUpStart },
+    );
+
+    return { persistedQuery: { ...persistedQuery, outcome: 'found', queryId: lookUpId }, strict };
+  }
+
+  if (registrationStore != null && isString(query)) {
+    const registeredQuery = await registerPersistedQuery(registrationStore, lookUpId, query);
+
+    reportLookUp(
+      { metrics, onMiss, onResolve, usageRecorder },
+      { outcome: 'registered', queryId: lookUpId, req, startTime: lookUpStart },
+    );
+
+    return {
+      persistedQuery: {
+        cachePolicy: null,
+        outcome: 'registered',
+        query: registeredQuery,
+        queryId: lookUpId,
+      },
+      strict,
+    };
   }
 
-  if (!isString(persistedQuery)) {
-    throw httpError(
+  const executesQuery = !isString(queryId) && !strict && hasQuery;
+
+  reportLookUp(
+    { metrics, onMiss, onResolve, usageRecorder },
+    {
+      outcome: executesQuery ? 'executed' : 'rejected',
+      queryId: lookUpId,
+      req,
+      startTime: lookUpStart,
+    },
+  );
+
+  if (!isString(queryId)) {
+    if (executesQuery) {
+      return { persistedQuery: null, strict };
+    }
+
+    throw createHttpError(
       HTTP_STATUS_BAD_REQUEST,
-      `The provided query ID "${queryId}" did not match any persisted query.`,
+      'PERSISTED_QUERY_NOT_FOUND',
+      'PersistedQueryNotFound',
     );
   }
 
-  return persistedQuery;
+  throw createHttpError(
+    HTTP_STATUS_BAD_REQUEST,
+    'PERSISTED_QUERY_NOT_FOUND',
+    `The provided query ID "${queryId}" did not match any persisted query.`,
+  );
+}
+
+export async function getPersistedQuery(
+  param: Param,
+): Promise<PersistedQueryResult<ResolvedPersistedQuery>> {
+  const { persistedQuery, strict } = await resolvePersistedQuery(param);
+
+  if (persistedQuery == null) {
+    return { persistedQuery: null, strict };
+  }
+
+  const operation = getOperation(
+    persistedQuery.query,
+    getRequestParam(param.searchParams, param.body, 'operationName'),
+  );
+
+  assertOperationAllowed({ ...param, operation });
+
+  return { persistedQuery: { ...persistedQuery, operation }, strict };
 }
@@ -0,0 +1,22 @@
+import type { URLSearchParams } from 'url';
+import { isObject, isString } from './typeguards';
+
+function parseExtensions(extensions: unknown): unknown {
+  if (!isString(extensions)) {
+    return extensions;
+  }
+
+  try {
+    return JSON.parse(extensions) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+export function getPersistedQueryExtension(searchParams: URLSearchParams, body: unknown): unknown {
+  const extensions = parseExtensions(
+    searchParams.get('extensions') ?? (isObject(body) ? body.extensions : null),
+  );
+
+  return isObject(extensions) ? extensions.persistedQuery : null;
+}
@@ -0,0 +1,10 @@
+import type { URLSearchParams } from 'url';
+import { isObject } from './typeguards';
+
+export function getRequestParam(
+  searchParams: URLSearchParams,
+  body: unknown,
+  name: string,
+): unknown {
+  return searchParams.get(name) ?? (isObject(body) ? body[name] : null);
+}
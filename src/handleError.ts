@@ -0,0 +1,53 @@
+import type { FormattedExecutionResult } from 'graphql';
+import type { HttpError } from 'http-errors';
+import { callHook } from './callHook';
+import { applyFormatError, formatHttpError, setHeaders } from './httpErrors';
+import { sendJson } from './sendJson';
+import type { NextFn, ParsedOptions, Request, RequestContext, Response } from './types';
+
+interface Param {
+  batchErrors?: HttpError[];
+  error: HttpError;
+  next: NextFn;
+  options: Pick<ParsedOptions, 'errorHandling' | 'formatError' | 'onError'>;
+  req: Request;
+  res: Response;
+}
+
+/**
+ * Formats the error of an operation as the result the GraphQL executor would
+ * respond with.
+ */
+export function toErrorResult(
+  options: Pick<ParsedOptions, 'formatError'>,
+  error: HttpError,
+  req: RequestContext,
+): FormattedExecutionResult {
+  return {
+    data: undefined,
+    errors: [applyFormatError(options.formatError, formatHttpError(error), req)],
+  };
+}
+
+/**
+ * Reports an error of the middleware to `options.onError` and then either
+ * passes it to `next` or sends an error response, according to
+ * `options.errorHandling`. For a batch, the response holds the errors of each
+ * operation, while `error` determines its status code.
+ */
+export function handleError({ batchErrors, error, next, options, req, res }: Param): void {
+  callHook(options.onError, error, req);
+
+  if (options.errorHandling === 'next') {
+    next(error);
+
+    return;
+  }
+
+  const toResult = (operationError: HttpError): FormattedExecutionResult =>
+    toErrorResult(options, operationError, req);
+
+  res.statusCode = error.statusCode;
+  setHeaders(res, error);
+  sendJson(res, batchErrors == null ? toResult(error) : batchErrors.map(toResult));
+}
@@ -0,0 +1,101 @@
+import type { GraphQLFormattedError } from 'graphql';
+import { formatError, GraphQLError } from 'graphql';
+import type { HttpError } from 'http-errors';
+import httpError, { isHttpError } from 'http-errors';
+import { HTTP_STATUS_INTERNAL_SERVER_ERROR } from './constants';
+import { isObject } from './typeguards';
+import type { ErrorCode, FormatErrorFn, RequestContext, Response } from './types';
+
+const INTERNAL_SERVER_ERROR: GraphQLFormattedError = {
+  extensions: { code: 'INTERNAL_SERVER_ERROR' },
+  message: 'Internal server error.',
+};
+
+export function createHttpError(
+  statusCode: number,
+  code: ErrorCode,
+  message: string,
+  props: Record<string, unknown> = {},
+): HttpError {
+  return httpError(statusCode, message, { ...props, extensions: { code } });
+}
+
+/**
+ * Converts a thrown value to an HTTP error whose message can be sent to
+ * clients. An HTTP error that is not exposed, such as a 500 error, is replaced
+ * with a generic internal server error.
+ */
+export function toHttpError(unknownError: unknown): HttpError {
+  if (isHttpError(unknownError) && !unknownError.expose) {
+    return createHttpError(
+      HTTP_STATUS_INTERNAL_SERVER_ERROR,
+      'INTERNAL_SERVER_ERROR',
+      INTERNAL_SERVER_ERROR.message,
+    );
+  }
+
+  const error = httpError(
+    HTTP_STATUS_INTERNAL_SERVER_ERROR,
+    unknownError instanceof Error
+      ? unknownError
+      : /* istanbul ignore next: cannot get a non-Error to be thrown */ String(unknownError),
+  );
+
+  if (!isObject(error.extensions)) {
+    error.extensions = { code: 'INTERNAL_SERVER_ERROR' };
+  }
+
+  return error;
+}
+
+export function toGraphQLError(error: HttpError): GraphQLError {
+  return new GraphQLError(
+    error.message,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    error,
+    error.extensions as Record<string, unknown>,
+  );
+}
+
+/**
+ * Converts an error returned by `options.formatError` back to a GraphQL error,
+ * for servers such as `graphql-ws` that format the errors themselves.
+ */
+export function fromFormattedError({
+  extensions,
+  message,
+  path,
+}: GraphQLFormattedError): GraphQLError {
+  return new GraphQLError(message, undefined, undefined, undefined, path, undefined, extensions);
+}
+
+export function formatHttpError(error: HttpError): GraphQLFormattedError {
+  return formatError(toGraphQLError(error));
+}
+
+export function applyFormatError(
+  formatErrorFn: FormatErrorFn<RequestContext>,
+  error: GraphQLFormattedError,
+  req: RequestContext,
+): GraphQLFormattedError {
+  try {
+    return formatErrorFn(error, req);
+  } catch (unknownError: unknown) {
+    console.error(unknownError);
+
+    return INTERNAL_SERVER_ERROR;
+  }
+}
+
+export function setHeaders(res: Response, error: HttpError): void {
+  if (error.headers == null) {
+    return;
+  }
+
+  for (const [name, value] of Object.entries(error.headers)) {
+    res.setHeader(name, value);
+  }
+}
@@ -1,73 +1,109 @@
-import type { FormattedExecutionResult } from 'graphql';
-import { formatError, GraphQLError } from 'graphql';
-import httpError from 'http-errors';
-import { assert } from './assert';
-import { HTTP_STATUS_INTERNAL_SERVER_ERROR } from './constants';
-import { getPersistedQuery } from './getPersistedQuery';
-import { parseOptions } from './parseOptions';
-import { parseRequestBodyIfNecessary } from './parseRequestBodyIfNecessary';
-import { sendJson } from './sendJson';
-import { isObject, isString, nonNull } from './typeguards';
-import type { Middleware, Options } from './types';
+import { createHandler } from './createHandler';
+import type { Options, PersistedQueriesMiddleware } from './types';
+
+export {
+  persistedQueriesFastify,
+  persistedQueriesGraphQLWs,
+  persistedQueriesHttp,
+  persistedQueriesKoa,
+} from './adapters';
+export { createCachedQueryStore } from './createCachedQueryStore';
+export { createFileQueryStore } from './createFileQueryStore';
+export { createFileUsageSink } from './createFileUsageSink';
+export { createMetrics } from './createMetrics';
+export { createPersistedQueryResolver } from './createPersistedQueryResolver';
+export { createUsageRecorder } from './createUsageRecorder';
+export { findUnusedPersistedQueries } from './findUnusedPersistedQueries';
+export { resolveClientNamespace } from './getNamespace';
+export { loadManifest, parseManifest } from './loadManifest';
+export {
+  createFunctionQueryStore,
+  createMapQueryStore,
+  createObjectQueryStore,
+} from './queryStores';
+export { validatePersistedQueries } from './validatePersistedQueries';
+export { withETag } from './withETag';
+export type {
+  BodyParsedEvent,
+  CachedQueryStore,
+  CacheControlOptions,
+  CacheOptions,
+  CachePolicy,
+  CacheStats,
+  CharsetDecoderFn,
+  ContentDecoderFn,
+  ErrorCode,
+  ErrorHandling,
+  FastifyPreHandler,
+  FastifyReply,
+  FastifyRequest,
+  FileQueryStore,
+  FileQueryStoreOptions,
+  FormatErrorFn,
+  GraphQLWsContext,
+  GraphQLWsOnSubscribe,
+  GraphQLWsSubscribeMessage,
+  Handler,
+  HashFn,
+  HttpHandler,
+  InvalidPersistedQuery,
+  KoaContext,
+  KoaMiddleware,
+  LookUpOutcome,
+  ManifestFormat,
+  ManifestOptions,
+  Maybe,
+  Metrics,
+  MetricsOptions,
+  Middleware,
+  MissEvent,
+  NamespaceOptions,
+  OnErrorFn,
+  OperationType,
+  Options,
+  OptionsData,
+  PersistedQueriesMiddleware,
+  PersistedQuery,
+  PersistedQueryEntry,
+  PersistedQueryInfo,
+  PersistedQueryResolver,
+  PersistedQueryValidationReport,
+  PromiseOrValue,
+  QueryMap,
+  QueryMapContext,
+  QueryMapFn,
+  QueryStore,
+  QueryUsage,
+  RejectStrictEvent,
+  ReloadEvent,
+  RequestOutcome,
+  ResolveNamespaceFn,
+  Request,
+  ResolveBatchResult,
+  ResolvedPersistedQuery,
+  ResolveErrorResult,
+  ResolveEvent,
+  ResolveInput,
+  ResolvePassthroughResult,
+  ResolvePersistedQueryResult,
+  ResolveResult,
+  Response,
+  StrictFn,
+  UsageRecorder,
+  UsageRecorderOptions,
+  UsageSink,
+} from './types';
 
 /**
  * Creates a middleware that adds support for persisted queries to your GraphQL
  * HTTP server. This middleware should be specified before `graphqlHTTP` from
  * `express-graphql`.
  * @param options Options to customize the middleware behavior.
- * @returns An HTTP server middleware.
+ * @returns An HTTP server middleware whose `ready` method can be awaited to
+ * fail to start when the options are invalid.
  * @example
  * app.use('/graphql', persistedQueries({ queryMap }), graphqlHTTP({ schema }));
  */
-export function persistedQueries(options: Options): Middleware {
-  assert(nonNull(options), 'You must provide options to the persistedQueries middleware.');
-
-  const parsedOptions = parseOptions(options);
-
-  parsedOptions.catch(console.error);
-
-  return async function persistedQueriesMiddleware(req, res, next): Promise<void> {
-    try {
-      const { queryIdKey, queryMap, strict } = await parsedOptions;
-
-      await parseRequestBodyIfNecessary(req);
-
-      const persistedQuery = await getPersistedQuery({ queryIdKey, queryMap, req, strict });
-
-      if (isString(persistedQuery)) {
-        if (isObject(req.body)) {
-          req.body.query = persistedQuery;
-        } else {
-          req.body = { query: persistedQuery };
-        }
-      }
-
-      next();
-    } catch (unknownError: unknown) {
-      const error = httpError(
-        HTTP_STATUS_INTERNAL_SERVER_ERROR,
-        unknownError instanceof Error
-          ? unknownError
-          : /* istanbul ignore next: cannot get a non-Error to be thrown */ String(unknownError),
-      );
-
-      res.statusCode = error.statusCode;
-
-      const graphqlError = new GraphQLError(
-        error.message,
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        error,
-      );
-
-      const result: FormattedExecutionResult = {
-        data: undefined,
-        errors: [formatError(graphqlError)],
-      };
-
-      sendJson(res, result);
-    }
-  };
+export function persistedQueries(options: Options): PersistedQueriesMiddleware {
+  return createHandler(options);
 }
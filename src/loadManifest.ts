@@ -0,0 +1,159 @@
+import { readFile } from 'fs';
+import { promisify } from 'util';
+import { assert } from './assert';
+import { isObject, isString } from './typeguards';
+import type { ManifestFormat, ManifestOptions } from './types';
+
+const APOLLO_MANIFEST_FORMAT = 'apollo-persisted-query-manifest';
+const APOLLO_MANIFEST_VERSION = 1;
+
+const readFileAsync = promisify(readFile);
+
+function detectManifestFormat(manifest: Record<string, unknown>): ManifestFormat {
+  return Array.isArray(manifest.operations) ? 'apollo' : 'relay';
+}
+
+function parseApolloManifest(
+  manifest: Record<string, unknown>,
+  prefix: string,
+): Record<string, string> {
+  assert(
+    manifest.format == null || manifest.format === APOLLO_MANIFEST_FORMAT,
+    `${prefix}: "format" must be "${APOLLO_MANIFEST_FORMAT}", but got ${JSON.stringify(
+      manifest.format,
+    )}.`,
+  );
+  assert(
+    manifest.version == null || manifest.version === APOLLO_MANIFEST_VERSION,
+    `${prefix}: only version ${APOLLO_MANIFEST_VERSION} of the Apollo manifest format is supported, but got version ${JSON.stringify(
+      manifest.version,
+    )}.`,
+  );
+  assert(
+    Array.isArray(manifest.operations),
+    `${prefix}: an Apollo manifest must have an "operations" array.`,
+  );
+
+  const queryMap: Record<string, string> = {};
+
+  manifest.operations.forEach((operation: unknown, index) => {
+    assert(isObject(operation), `${prefix}: operations[${index}] must be an object.`);
+
+    const { body, id } = operation;
+
+    assert(
+      isString(id) && id !== '',
+      `${prefix}: operations[${index}].id must be a non-empty string.`,
+    );
+    assert(
+      isString(body) && body !== '',
+      `${prefix}: operations[${index}].body must be a non-empty string.`,
+    );
+    assert(
+      !Object.prototype.hasOwnProperty.call(queryMap, id) || queryMap[id] === body,
+      `${prefix}: operations[${index}].id "${id}" is used by another operation with a different body.`,
+    );
+
+    queryMap[id] = body;
+  });
+
+  return queryMap;
+}
+
+function parseFlatManifest(
+  manifest: Record<string, unknown>,
+  prefix: string,
+): Record<string, string> {
+  const queryMap: Record<string, string> = {};
+
+  Object.entries(manifest).forEach(([queryId, query]) => {
+    assert(
+      isString(query) && query !== '',
+      `${prefix}: the query ID "${queryId}" must map to a non-empty query string.`,
+    );
+
+    queryMap[queryId] = query;
+  });
+
+  return queryMap;
+}
+
+/**
+ * Normalizes the contents of a persisted query manifest into an object mapping
+ * query IDs to query text. Supported formats are the `persisted-queries.json`
+ * file generated by `relay-compiler`, the `persisted-query-manifest.json` file
+ * generated by `@apollo/generate-persisted-query-manifest`, and the
+ * `persisted-documents.json` file generated by the client preset of GraphQL
+ * Code Generator.
+ * @param manifest The parsed JSON contents of the manifest.
+ * @param options Options to specify the manifest format and source.
+ * @returns An object mapping query IDs to query text.
+ * @example
+ * const queryMap = parseManifest(require('./persisted-queries.json'));
+ */
+export function parseManifest(
+  manifest: unknown,
+  options: ManifestOptions = {},
+): Record<string, string> {
+  const prefix = `Invalid persisted query manifest${
+    isString(options.source) ? ` "${options.source}"` : ''
+  }`;
+
+  assert(
+    isObject(manifest) && !Array.isArray(manifest),
+    `${prefix}: expected an object mapping query IDs to query text or an Apollo manifest with an "operations" array.`,
+  );
+
+  const format = options.format ?? detectManifestFormat(manifest);
+
+  switch (format) {
+    case 'apollo':
+      return parseApolloManifest(manifest, prefix);
+    case 'graphql-codegen':
+    case 'relay':
+      return parseFlatManifest(manifest, prefix);
+    default:
+      throw new TypeError(
+        `Unsupported persisted query manifest format "${String(
+          format,
+        )}". Supported formats are "apollo", "graphql-codegen", and "relay".`,
+      );
+  }
+}
+
+/**
+ * Reads a persisted query manifest file and normalizes it into an object
+ * mapping query IDs to query text. See `parseManifest` for the supported
+ * formats.
+ * @param filePath The path to the manifest file.
+ * @param options Options to specify the manifest format.
+ * @returns A promise that resolves with an object mapping query IDs to query
+ * text.
+ * @example
+ * app.use(
+ *   '/graphql',
+ *   persistedQueries({ queryMap: loadManifest('./persisted-query-manifest.json') }),
+ *   graphqlHTTP({ schema }),
+ * );
+ */
+export async function loadManifest(
+  filePath: string,
+  options: Omit<ManifestOptions, 'source'> = {},
+): Promise<Record<string, string>> {
+  const json = await readFileAsync(filePath, 'utf8');
+  let manifest: unknown = null;
+
+  try {
+    manifest = JSON.parse(json);
+  } catch (unknownError: unknown) {
+    /* istanbul ignore next: JSON.parse only throws syntax errors */
+    const errorMessage =
+      unknownError instanceof Error ? unknownError.message : String(unknownError);
+
+    throw new TypeError(
+      `Invalid persisted query manifest "${filePath}": the file is not valid JSON (${errorMessage}).`,
+    );
+  }
+
+  return parseManifest(manifest, { ...options, source: filePath });
+}
@@ -0,0 +1,172 @@
+import { HTTP_STATUS_BAD_REQUEST, HTTP_STATUS_PAYLOAD_TOO_LARGE } from './constants';
+import { createHttpError } from './httpErrors';
+import type { Request } from './types';
+
+const BUFFER_START = 0;
+const HEADER_SEPARATOR = '\r\n\r\n';
+const NOT_FOUND = -1;
+
+interface OperationsField {
+  /**
+   * The bytes of the body that were read, which are put back into the request
+   * stream for the multipart parser that handles the file uploads.
+   */
+  buffer: Buffer;
+  /**
+   * The offset in `buffer` at which the value of the `operations` field ends.
+   */
+  end: number;
+  /**
+   * The offset in `buffer` at which the value of the `operations` field starts.
+   */
+  start: number;
+}
+
+const operationsFields = new WeakMap<Request, OperationsField>();
+
+function findOperationsField(buffer: Buffer, boundary: string): OperationsField | false | null {
+  const delimiter = `--${boundary}\r\n`;
+  const delimiterIndex = buffer.indexOf(delimiter);
+  const headersEnd = buffer.indexOf(HEADER_SEPARATOR, delimiterIndex);
+
+  if (delimiterIndex === NOT_FOUND || headersEnd === NOT_FOUND) {
+    return null;
+  }
+
+  const headers = buffer.toString('utf8', delimiterIndex + delimiter.length, headersEnd);
+
+  if (!/^content-disposition:[^\r\n]*;\s*name="operations"/imu.test(headers)) {
+    return false;
+  }
+
+  const start = headersEnd + HEADER_SEPARATOR.length;
+  const end = buffer.indexOf(`\r\n--${boundary}`, start);
+
+  return end === NOT_FOUND ? null : { buffer, end, start };
+}
+
+/**
+ * Reads the `operations` field of a multipart request, as specified by the
+ * GraphQL multipart request spec, which requires it to be the first field. The
+ * request stream is paused once the first field is read, and the bytes that
+ * were read are put back into it, either right away if the first field isn't
+ * `operations` or by `restoreMultipartBody` or `releaseMultipartBody`, so
+ * that a multipart parser that handles the file uploads can read the whole
+ * body afterwards.
+ */
+export async function readMultipartOperations(
+  req: Request,
+  boundary: string,
+  bodyLimit: number,
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    function onData(chunk: Buffer): void {
+      chunks.push(chunk);
+
+      const buffer = Buffer.concat(chunks);
+      const operationsField = findOperationsField(buffer, boundary);
+
+      if (operationsField == null && buffer.length <= bodyLimit) {
+        return;
+      }
+
+      req.off('data', onData);
+      req.pause();
+
+      if (operationsField == null) {
+        reject(
+          createHttpError(
+            HTTP_STATUS_PAYLOAD_TOO_LARGE,
+            'BODY_TOO_LARGE',
+            'Request body too large.',
+          ),
+        );
+
+        return;
+      }
+
+      if (operationsField === false) {
+        req.unshift(buffer);
+        resolve(null);
+
+        return;
+      }
+
+      operationsFields.set(req, operationsField);
+      resolve(buffer.toString('utf8', operationsField.start, operationsField.end));
+    }
+
+    req.on('data', onData);
+    req.once('end', () => {
+      reject(
+        createHttpError(
+          HTTP_STATUS_BAD_REQUEST,
+          'INVALID_REQUEST_BODY',
+          'Request body is not a valid multipart body.',
+        ),
+      );
+    });
+    req.once(
+      'error',
+      /* istanbul ignore next: cannot make the request stream emit an error. */
+      (error: Error) => {
+        reject(
+          createHttpError(
+            HTTP_STATUS_BAD_REQUEST,
+            'INVALID_REQUEST_BODY',
+            `Invalid request body: ${error.message}.`,
+          ),
+        );
+      },
+    );
+  });
+}
+
+/**
+ * Puts the bytes of a multipart request that were read by
+ * `readMultipartOperations` back into the request stream as they were, for a
+ * request whose `operations` field is left to the GraphQL server.
+ */
+export function releaseMultipartBody(req: Request): void {
+  const operationsField = operationsFields.get(req);
+
+  /* istanbul ignore if: only called after the operations field is read. */
+  if (operationsField == null) {
+    return;
+  }
+
+  operationsFields.delete(req);
+  req.unshift(operationsField.buffer);
+}
+
+/**
+ * Puts the bytes of a multipart request that were read by
+ * `readMultipartOperations` back into the request stream, replacing the value
+ * of the `operations` field with the JSON of the request body, which then
+ * holds the query text of the resolved persisted queries.
+ */
+export function restoreMultipartBody(req: Request): void {
+  const operationsField = operationsFields.get(req);
+
+  if (operationsField == null) {
+    return;
+  }
+
+  operationsFields.delete(req);
+
+  const { buffer, end, start } = operationsField;
+  const operations = Buffer.from(JSON.stringify(req.body), 'utf8');
+  const contentLength = req.headers['content-length'];
+
+  if (contentLength != null) {
+    req.headers['content-length'] = String(
+      Number(contentLength) - (end - start) + operations.length,
+    );
+  }
+
+  req.unshift(
+    Buffer.concat([buffer.subarray(BUFFER_START, start), operations, buffer.subarray(end)]),
+  );
+}
@@ -1,6 +1,475 @@
+import { createHash, getHashes } from 'crypto';
+import type { GraphQLFormattedError, GraphQLSchema } from 'graphql';
+import { isSchema } from 'graphql';
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
 import { assert } from './assert';
-import { isFunction, isObject, isString } from './typeguards';
-import type { ParsedOptions } from './types';
+import { parseCachePolicy } from './cacheControl';
+import {
+  HEADER_CLIENT_NAME,
+  HEADER_CLIENT_VERSION,
+  HTTP_STATUS_INTERNAL_SERVER_ERROR,
+  UNIT_BYTE,
+  UNIT_GIB,
+  UNIT_KIB,
+  UNIT_MIB,
+} from './constants';
+import { resolveClientNamespace } from './getNamespace';
+import { createHttpError } from './httpErrors';
+import { toQueryStore } from './queryStores';
+import { loadTracing } from './tracing';
+import {
+  isFunction,
+  isMetrics,
+  isObject,
+  isString,
+  isUsageRecorder,
+  isWritableQueryStore,
+} from './typeguards';
+import type {
+  AnyFunction,
+  CharsetDecoderFn,
+  ContentDecoderFn,
+  ErrorHandling,
+  FormatErrorFn,
+  LooseHashFn,
+  LooseQueryStore,
+  LooseStrictFn,
+  Maybe,
+  Metrics,
+  OperationType,
+  ParsedCacheControl,
+  ParsedNamespace,
+  ParsedOptions,
+  ParsedTracing,
+  RequestContext,
+  UsageRecorder,
+} from './types';
+import { formatValidationReport, validatePersistedQueries } from './validatePersistedQueries';
+
+const DEFAULT_BODY_LIMIT_KIB = 100;
+
+const DEFAULT_MAX_BATCH_SIZE = 10;
+const OPERATION_TYPES: readonly unknown[] = ['mutation', 'query', 'subscription'];
+const MIN_BODY_LIMIT = 0;
+const MIN_MAX_BATCH_SIZE = 1;
+const BODY_LIMIT_PATTERN = /^(\d+(?:\.\d+)?) *([kmg]?b)?$/iu;
+const BODY_LIMIT_UNITS = new Map([
+  ['b', UNIT_BYTE],
+  ['kb', UNIT_KIB],
+  ['mb', UNIT_MIB],
+  ['gb', UNIT_GIB],
+]);
+
+function parseBodyLimit(bodyLimit: unknown): number {
+  if (bodyLimit == null) {
+    return DEFAULT_BODY_LIMIT_KIB * UNIT_KIB;
+  }
+
+  const errorMessage =
+    'options.bodyLimit must be a non-negative integer or a string with a unit, such as "1mb".';
+
+  if (!isString(bodyLimit)) {
+    assert(Number.isInteger(bodyLimit) && Number(bodyLimit) >= MIN_BODY_LIMIT, errorMessage);
+
+    return Number(bodyLimit);
+  }
+
+  const [, value, unit = 'b'] = BODY_LIMIT_PATTERN.exec(bodyLimit.trim()) ?? [];
+
+  assert(value != null, errorMessage);
+
+  return Math.floor(Number(value) * Number(BODY_LIMIT_UNITS.get(unit.toLowerCase())));
+}
+
+function parseContentEncodings(contentEncodings: unknown): Map<string, ContentDecoderFn> {
+  const parsedContentEncodings = new Map<string, ContentDecoderFn>([
+    ['br', createBrotliDecompress],
+    ['deflate', createInflate],
+    ['gzip', createGunzip],
+  ]);
+
+  if (contentEncodings == null) {
+    return parsedContentEncodings;
+  }
+
+  assert(
+    isObject(contentEncodings),
+    'options.contentEncodings must be an object mapping content encodings to functions.',
+  );
+
+  for (const [encoding, createDecoder] of Object.entries(contentEncodings)) {
+    assert(isFunction(createDecoder), `options.contentEncodings.${encoding} must be a function.`);
+
+    parsedContentEncodings.set(encoding.toLowerCase(), createDecoder as ContentDecoderFn);
+  }
+
+  return parsedContentEncodings;
+}
+
+function parseFormatError(formatError: unknown): FormatErrorFn<RequestContext> {
+  if (formatError == null) {
+    return (error): GraphQLFormattedError => error;
+  }
+
+  assert(isFunction(formatError), 'options.formatError must be a function.');
+
+  return formatError as FormatErrorFn<RequestContext>;
+}
+
+function parseErrorHandling(errorHandling: unknown): ErrorHandling {
+  if (errorHandling == null) {
+    return 'respond';
+  }
+
+  assert(
+    errorHandling === 'next' || errorHandling === 'respond',
+    'options.errorHandling must be "next" or "respond".',
+  );
+
+  return errorHandling;
+}
+
+function parseHook(hook: unknown, optionName: string): AnyFunction {
+  if (hook == null) {
+    return (): void => undefined;
+  }
+
+  assert(isFunction(hook), `${optionName} must be a function.`);
+
+  return hook;
+}
+
+async function parseTracing(tracing: unknown): Promise<ParsedTracing | null> {
+  const booleanTracing = Boolean(tracing);
+
+  return booleanTracing ? loadTracing() : null;
+}
+
+function parseMetrics(metrics: unknown): Metrics | null {
+  if (metrics == null) {
+    return null;
+  }
+
+  assert(isMetrics(metrics), 'options.metrics must be created with createMetrics.');
+
+  return metrics;
+}
+
+function parseUsageRecorder(usageRecorder: unknown): UsageRecorder | null {
+  if (usageRecorder == null) {
+    return null;
+  }
+
+  assert(
+    isUsageRecorder(usageRecorder),
+    'options.usageRecorder must be created with createUsageRecorder.',
+  );
+
+  return usageRecorder;
+}
+
+function parseDecodeCharset(decodeCharset: unknown): CharsetDecoderFn {
+  if (decodeCharset == null) {
+    return (): null => null;
+  }
+
+  assert(isFunction(decodeCharset), 'options.decodeCharset must be a function.');
+
+  return decodeCharset as CharsetDecoderFn;
+}
+
+function parseMaxBatchSize(maxBatchSize: unknown): number {
+  if (maxBatchSize == null) {
+    return DEFAULT_MAX_BATCH_SIZE;
+  }
+
+  assert(
+    Number.isInteger(maxBatchSize) && Number(maxBatchSize) >= MIN_MAX_BATCH_SIZE,
+    'options.maxBatchSize must be a positive integer.',
+  );
+
+  return Number(maxBatchSize);
+}
+
+function isOperationTypeList(value: unknown): value is OperationType[] {
+  return Array.isArray(value) && value.every((item) => OPERATION_TYPES.includes(item));
+}
+
+function parseAllowedOperationTypes(
+  allowedOperationTypes: unknown,
+): Map<string, readonly OperationType[]> {
+  const parsedAllowedOperationTypes = new Map<string, readonly OperationType[]>([
+    ['GET', ['query']],
+  ]);
+
+  if (allowedOperationTypes == null) {
+    return parsedAllowedOperationTypes;
+  }
+
+  assert(
+    isObject(allowedOperationTypes),
+    'options.allowedOperationTypes must be an object mapping HTTP methods to arrays of operation types.',
+  );
+
+  for (const [method, operationTypes] of Object.entries(allowedOperationTypes)) {
+    assert(
+      isOperationTypeList(operationTypes),
+      `options.allowedOperationTypes.${method} must be an array of "query", "mutation", or "subscription".`,
+    );
+
+    parsedAllowedOperationTypes.set(method.toUpperCase(), operationTypes);
+  }
+
+  return parsedAllowedOperationTypes;
+}
+
+function parseCacheControl(
+  cacheControl: unknown,
+  varyByClient: boolean,
+): ParsedCacheControl | null {
+  if (cacheControl == null || cacheControl === false) {
+    return null;
+  }
+
+  const cacheControlOptions = cacheControl === true ? {} : cacheControl;
+
+  assert(isObject(cacheControlOptions), 'options.cacheControl must be a boolean or an object.');
+
+  const { etag = true, vary = [] } = cacheControlOptions;
+
+  assert(
+    Array.isArray(vary) && vary.every(isString),
+    'options.cacheControl.vary must be an array of header names.',
+  );
+
+  const clientHeaders = varyByClient ? [HEADER_CLIENT_NAME, HEADER_CLIENT_VERSION] : [];
+
+  return {
+    etag: Boolean(etag),
+    policy: parseCachePolicy(cacheControlOptions, 'options.cacheControl'),
+    vary: [...vary, ...clientHeaders.filter((header) => !vary.includes(header))],
+  };
+}
+
+function parseHashAlgorithm(hashAlgorithm: unknown): LooseHashFn {
+  if (hashAlgorithm == null) {
+    return parseHashAlgorithm('sha256');
+  }
+
+  if (isFunction(hashAlgorithm)) {
+    return hashAlgorithm;
+  }
+
+  assert(
+    isString(hashAlgorithm) && getHashes().includes(hashAlgorithm),
+    'options.hashAlgorithm must be a function or the name of a hash algorithm supported by crypto.createHash.',
+  );
+
+  return (query): string => createHash(hashAlgorithm).update(query).digest('hex');
+}
+
+function parseStrict(strict: unknown): LooseStrictFn {
+  if (isFunction(strict)) {
+    return strict;
+  }
+
+  const booleanStrict = Boolean(strict);
+
+  return (): boolean => booleanStrict;
+}
+
+function isAlwaysStrict(strict: unknown): boolean {
+  return !isFunction(strict) && Boolean(strict);
+}
+
+function parseSchema(schema: unknown): GraphQLSchema | null {
+  if (schema == null) {
+    return null;
+  }
+
+  assert(isSchema(schema), 'options.schema must be a GraphQLSchema.');
+
+  return schema;
+}
+
+function parseOnInvalidQueries(onInvalidQueries: unknown): (message: string) => void {
+  if (onInvalidQueries == null) {
+    return console.warn;
+  }
+
+  assert(isFunction(onInvalidQueries), 'options.onInvalidQueries must be a function.');
+
+  return onInvalidQueries;
+}
+
+async function parseQueryMap(
+  promiseOrQueryMap: unknown,
+  optionName: string,
+): Promise<LooseQueryStore> {
+  const queryMap = await promiseOrQueryMap;
+
+  assert(
+    isObject(queryMap) || isFunction(queryMap),
+    `${optionName} must be an object, a function, or a promise that resolves with an object or function.`,
+  );
+
+  return toQueryStore(queryMap);
+}
+
+interface ValidationContext {
+  onInvalidQueries: (message: string) => void;
+  schema: GraphQLSchema;
+}
+
+async function validateQueryStore(
+  queryStore: LooseQueryStore,
+  optionName: string,
+  { onInvalidQueries, schema }: ValidationContext,
+  strict: boolean,
+  namespace?: string,
+): Promise<void> {
+  assert(
+    isFunction(queryStore.entries),
+    `${optionName} must be an object or a store with an "entries" method when options.schema is provided.`,
+  );
+
+  const queries = (await queryStore.entries()) as Iterable<[string, string]>;
+  const report = validatePersistedQueries(schema, queries);
+
+  if (!report.invalid.length) {
+    return;
+  }
+
+  const message = formatValidationReport(report, namespace);
+
+  if (strict) {
+    // A 500 HTTP error is not exposed, so clients only get a generic message.
+    throw createHttpError(HTTP_STATUS_INTERNAL_SERVER_ERROR, 'INTERNAL_SERVER_ERROR', message);
+  }
+
+  onInvalidQueries(message);
+}
+
+function assertWritableQueryStore(
+  queryStore: LooseQueryStore,
+  optionName: string,
+  autoRegister: boolean,
+): void {
+  assert(
+    !autoRegister || isWritableQueryStore(queryStore),
+    `${optionName} must be a store with "get" and "set" methods when options.autoRegister is true.`,
+  );
+}
+
+interface NamespaceNode {
+  fallback: boolean | string;
+  name: string;
+  queryStore: LooseQueryStore;
+  strict: LooseStrictFn;
+}
+
+interface NamespaceContext {
+  autoRegister: boolean;
+  namespaces: Record<string, unknown>;
+  strict: unknown;
+  validation: ValidationContext | null;
+}
+
+async function parseNamespace(
+  name: string,
+  { autoRegister, namespaces, strict, validation }: NamespaceContext,
+): Promise<NamespaceNode> {
+  const namespaceOptions = namespaces[name];
+  const optionName = `options.namespaces["${name}"]`;
+
+  assert(isObject(namespaceOptions), `${optionName} must be an object.`);
+
+  const { fallback = true } = namespaceOptions;
+
+  assert(
+    typeof fallback === 'boolean' ||
+      (isString(fallback) && Object.prototype.hasOwnProperty.call(namespaces, fallback)),
+    `${optionName}.fallback must be a boolean or the name of another namespace.`,
+  );
+
+  const queryStore = await parseQueryMap(namespaceOptions.queryMap, `${optionName}.queryMap`);
+  const namespaceStrict = namespaceOptions.strict ?? strict;
+
+  assertWritableQueryStore(queryStore, `${optionName}.queryMap`, autoRegister);
+
+  if (validation != null) {
+    await validateQueryStore(
+      queryStore,
+      `${optionName}.queryMap`,
+      validation,
+      isAlwaysStrict(namespaceStrict),
+      name,
+    );
+  }
+
+  return { fallback, name, queryStore, strict: parseStrict(namespaceStrict) };
+}
+
+function getQueryStores(
+  node: NamespaceNode,
+  nodes: Map<string, NamespaceNode>,
+  rootQueryStore: LooseQueryStore,
+): LooseQueryStore[] {
+  const queryStores: LooseQueryStore[] = [];
+  const visited = new Set<NamespaceNode>();
+  let current: Maybe<NamespaceNode> = node;
+
+  while (current != null) {
+    assert(
+      !visited.has(current),
+      `The fallbacks of options.namespaces["${node.name}"] form a cycle.`,
+    );
+
+    visited.add(current);
+    queryStores.push(current.queryStore);
+
+    if (current.fallback === true) {
+      queryStores.push(rootQueryStore);
+    }
+
+    current = isString(current.fallback) ? nodes.get(current.fallback) : null;
+  }
+
+  return queryStores;
+}
+
+async function parseNamespaces(
+  namespaces: unknown,
+  rootQueryStore: LooseQueryStore,
+  context: Omit<NamespaceContext, 'namespaces'>,
+): Promise<Map<string, ParsedNamespace>> {
+  const parsedNamespaces = new Map<string, ParsedNamespace>();
+
+  if (namespaces == null) {
+    return parsedNamespaces;
+  }
+
+  assert(isObject(namespaces), 'options.namespaces must be an object.');
+
+  const nodes = new Map<string, NamespaceNode>();
+  const parsedNodes = await Promise.all(
+    Object.keys(namespaces).map(async (name) => parseNamespace(name, { ...context, namespaces })),
+  );
+
+  for (const node of parsedNodes) {
+    nodes.set(node.name, node);
+  }
+
+  for (const node of parsedNodes) {
+    parsedNamespaces.set(node.name, {
+      queryStore: node.queryStore,
+      queryStores: getQueryStores(node, nodes, rootQueryStore),
+      strict: node.strict,
+    });
+  }
+
+  return parsedNamespaces;
+}
 
 export async function parseOptions(promiseOrOptions: unknown): Promise<ParsedOptions> {
   const options = await promiseOrOptions;
@@ -10,19 +479,88 @@ export async function parseOptions(promiseOrOptions: unknown): Promise<ParsedOpt
     'The options passed to persistedQueries must be an object or a promise that resolves with an object.',
   );
 
-  const queryMap = await options.queryMap;
+  const queryStore = await parseQueryMap(options.queryMap, 'options.queryMap');
+  const autoRegister = Boolean(options.autoRegister);
 
-  assert(
-    isObject(queryMap) || isFunction(queryMap),
-    'options.queryMap must be an object, a function, or a promise that resolves with an object or function.',
-  );
+  assertWritableQueryStore(queryStore, 'options.queryMap', autoRegister);
 
+  const allowedOperationTypes = parseAllowedOperationTypes(options.allowedOperationTypes);
+  const allowAutoRegisterInStrictMode = Boolean(options.allowAutoRegisterInStrictMode);
+  const apq = Boolean(options.apq);
+  const batching = Boolean(options.batching);
+  const bodyLimit = parseBodyLimit(options.bodyLimit);
+  const contentEncodings = parseContentEncodings(options.contentEncodings);
+  const decodeCharset = parseDecodeCharset(options.decodeCharset);
+  const errorHandling = parseErrorHandling(options.errorHandling);
+  const formatError = parseFormatError(options.formatError);
+  const hashAlgorithm = parseHashAlgorithm(options.hashAlgorithm);
+  const maxBatchSize = parseMaxBatchSize(options.maxBatchSize);
+  const metrics = parseMetrics(options.metrics);
+  const onBodyParsed = parseHook(options.onBodyParsed, 'options.onBodyParsed');
+  const onError = parseHook(options.onError, 'options.onError');
+  const onInvalidQueries = parseOnInvalidQueries(options.onInvalidQueries);
+  const onMiss = parseHook(options.onMiss, 'options.onMiss');
+  const onRejectStrict = parseHook(options.onRejectStrict, 'options.onRejectStrict');
+  const onResolve = parseHook(options.onResolve, 'options.onResolve');
+  const partialBatches = Boolean(options.partialBatches);
+  const { resolveNamespace = resolveClientNamespace } = options;
   const queryIdKey = isString(options.queryIdKey) ? options.queryIdKey : 'queryId';
-  const strict = Boolean(options.strict);
+  const strict = parseStrict(options.strict);
+  const tracing = await parseTracing(options.tracing);
+  const usageRecorder = parseUsageRecorder(options.usageRecorder);
+  const verifyHash = Boolean(options.verifyHash);
+  const schema = parseSchema(options.schema);
+  const validation = schema == null ? null : { onInvalidQueries, schema };
+
+  assert(isFunction(resolveNamespace), 'options.resolveNamespace must be a function.');
+
+  if (validation != null) {
+    await validateQueryStore(
+      queryStore,
+      'options.queryMap',
+      validation,
+      isAlwaysStrict(options.strict),
+    );
+  }
+
+  const namespaces = await parseNamespaces(options.namespaces, queryStore, {
+    autoRegister,
+    strict: options.strict,
+    validation,
+  });
+  const cacheControl = parseCacheControl(
+    options.cacheControl,
+    Boolean(namespaces.size) && resolveNamespace === resolveClientNamespace,
+  );
 
   return {
+    allowAutoRegisterInStrictMode,
+    allowedOperationTypes,
+    apq,
+    autoRegister,
+    batching,
+    bodyLimit,
+    cacheControl,
+    contentEncodings,
+    decodeCharset,
+    errorHandling,
+    formatError,
+    hashAlgorithm,
+    maxBatchSize,
+    metrics,
+    namespaces,
+    onBodyParsed,
+    onError,
+    onMiss,
+    onRejectStrict,
+    onResolve,
+    partialBatches,
     queryIdKey,
-    queryMap,
+    queryStore,
+    resolveNamespace,
     strict,
+    tracing,
+    usageRecorder,
+    verifyHash,
   };
 }
@@ -1,84 +1,174 @@
 import type { ParsedMediaType } from 'content-type';
 import contentType from 'content-type';
 import getStream, { MaxBufferError } from 'get-stream';
-import httpError from 'http-errors';
 import querystring from 'querystring';
-import type { Gunzip, Inflate } from 'zlib';
-import { createGunzip, createInflate } from 'zlib';
+import type { Transform } from 'stream';
 import {
   CONTENT_TYPE_FORM_URL_ENCODED,
+  CONTENT_TYPE_GRAPHQL,
   CONTENT_TYPE_JSON,
+  CONTENT_TYPE_MULTIPART_FORM_DATA,
   HTTP_STATUS_BAD_REQUEST,
   HTTP_STATUS_PAYLOAD_TOO_LARGE,
   HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE,
-  UNIT_KIB,
 } from './constants';
-import { nonNull } from './typeguards';
-import type { Request } from './types';
+import { getNamespace } from './getNamespace';
+import { createHttpError } from './httpErrors';
+import { readMultipartOperations, releaseMultipartBody } from './multipartBody';
+import { isString, nonNull } from './typeguards';
+import type { ParsedOptions, Request } from './types';
+
+type Param = Pick<
+  ParsedOptions,
+  | 'batching'
+  | 'bodyLimit'
+  | 'contentEncodings'
+  | 'decodeCharset'
+  | 'namespaces'
+  | 'resolveNamespace'
+  | 'strict'
+>;
+
+function parseJsonBody(json: string, batching: boolean): unknown {
+  const pattern = batching ? /^[ \t\n\r]*[{[]/ : /^[ \t\n\r]*{/;
 
-const MAX_BUFFER_SIZE_KIB = 100;
+  try {
+    if (!pattern.test(json)) {
+      throw new Error('Not a JSON object.');
+    }
 
-function parseJsonObject(json: string): Record<string, unknown> {
-  if (!/^[ \t\n\r]*{/.test(json)) {
-    throw new Error('Not a JSON object.');
+    return JSON.parse(json) as unknown;
+  } catch {
+    throw createHttpError(
+      HTTP_STATUS_BAD_REQUEST,
+      'INVALID_REQUEST_BODY',
+      batching
+        ? 'Request body is not a valid JSON object or array.'
+        : 'Request body is not a valid JSON object.',
+    );
   }
-
-  return JSON.parse(json) as Record<string, unknown>;
 }
 
 function isCharsetSupported(charset: string): charset is 'utf-8' | 'utf8' | 'utf16le' {
   return charset === 'utf8' || charset === 'utf-8' || charset === 'utf16le';
 }
 
-function getStreamFromRequest(req: Request, encoding: string): Gunzip | Inflate | Request {
-  switch (encoding) {
-    case 'deflate':
-      return req.pipe(createInflate());
-    case 'gzip':
-      return req.pipe(createGunzip());
-    case 'identity':
-      return req;
-    default:
-      throw httpError(
-        HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE,
-        `Unsupported Content-Encoding: "${encoding}".`,
-      );
+function getStreamFromRequest(
+  req: Request,
+  encoding: string,
+  contentEncodings: Param['contentEncodings'],
+): Request | Transform {
+  if (encoding === 'identity') {
+    return req;
   }
+
+  const createDecoder = contentEncodings.get(encoding);
+
+  if (createDecoder == null) {
+    throw createHttpError(
+      HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE,
+      'UNSUPPORTED_CONTENT_ENCODING',
+      `Unsupported Content-Encoding: "${encoding}".`,
+    );
+  }
+
+  return req.pipe(createDecoder());
 }
 
-async function readRawBody(req: Request, contentTypeInfo: ParsedMediaType): Promise<string> {
-  const charset = contentTypeInfo.parameters.charset?.toLowerCase() ?? 'utf-8';
+async function decodeBody(
+  bodyBuffer: Buffer,
+  charset: string,
+  decodeCharset: Param['decodeCharset'],
+): Promise<string> {
+  if (isCharsetSupported(charset)) {
+    return bodyBuffer.toString(charset);
+  }
+
+  const body = await decodeCharset(bodyBuffer, charset);
 
-  if (!isCharsetSupported(charset)) {
-    throw httpError(
+  if (!isString(body)) {
+    throw createHttpError(
       HTTP_STATUS_UNSUPPORTED_MEDIA_TYPE,
+      'UNSUPPORTED_CHARSET',
       `Unsupported charset "${charset.toUpperCase()}".`,
     );
   }
 
-  const contentEncoding = req.headers['content-encoding'];
-  const encoding = contentEncoding?.toLowerCase() ?? 'identity';
-  const maxBuffer = MAX_BUFFER_SIZE_KIB * UNIT_KIB;
-  const stream = getStreamFromRequest(req, encoding);
+  return body;
+}
 
+async function readBodyBuffer(stream: Request | Transform, bodyLimit: number): Promise<Buffer> {
   try {
-    const bodyBuffer = await getStream.buffer(stream, { maxBuffer });
-
-    return bodyBuffer.toString(charset);
+    return await getStream.buffer(stream, { maxBuffer: bodyLimit });
   } catch (unknownError: unknown) {
     /* istanbul ignore else: cannot make get-stream throw other error. */
     if (unknownError instanceof MaxBufferError) {
-      throw httpError(HTTP_STATUS_PAYLOAD_TOO_LARGE, 'Request body too large.');
+      throw createHttpError(
+        HTTP_STATUS_PAYLOAD_TOO_LARGE,
+        'BODY_TOO_LARGE',
+        'Request body too large.',
+      );
     } else {
       const errorMessage =
         unknownError instanceof Error ? unknownError.message : String(unknownError);
 
-      throw httpError(HTTP_STATUS_BAD_REQUEST, `Invalid request body: ${errorMessage}.`);
+      throw createHttpError(
+        HTTP_STATUS_BAD_REQUEST,
+        'INVALID_REQUEST_BODY',
+        `Invalid request body: ${errorMessage}.`,
+      );
+    }
+  }
+}
+
+async function readRawBody(
+  req: Request,
+  contentTypeInfo: ParsedMediaType,
+  { bodyLimit, contentEncodings, decodeCharset }: Param,
+): Promise<string> {
+  const charset = contentTypeInfo.parameters.charset?.toLowerCase() ?? 'utf-8';
+
+  const contentEncoding = req.headers['content-encoding'];
+  const encoding = contentEncoding?.toLowerCase() ?? 'identity';
+  const stream = getStreamFromRequest(req, encoding, contentEncodings);
+  const bodyBuffer = await readBodyBuffer(stream, bodyLimit);
+
+  return decodeBody(bodyBuffer, charset, decodeCharset);
+}
+
+async function isStrict(
+  req: Request,
+  { namespaces, resolveNamespace, strict }: Param,
+): Promise<boolean> {
+  const namespace = await getNamespace(namespaces, resolveNamespace, req);
+
+  return Boolean(await (namespace?.strict ?? strict)(req));
+}
+
+/**
+ * Parses the `operations` field of a multipart request. When it isn't a valid
+ * operation, for example a batch while `batching` is `false`, and the request
+ * isn't in strict mode, the body is left unparsed and its bytes are put back
+ * untouched, so that the GraphQL server handles it as it would without the
+ * middleware.
+ */
+async function parseMultipartOperations(
+  req: Request,
+  operations: string,
+  options: Param,
+): Promise<void> {
+  try {
+    req.body = parseJsonBody(operations, options.batching);
+  } catch (error: unknown) {
+    if (await isStrict(req, options)) {
+      throw error;
     }
+
+    releaseMultipartBody(req);
   }
 }
 
-export async function parseRequestBodyIfNecessary(req: Request): Promise<void> {
+export async function parseRequestBodyIfNecessary(req: Request, options: Param): Promise<void> {
   if (nonNull(req.body)) {
     return;
   }
@@ -90,19 +180,39 @@ export async function parseRequestBodyIfNecessary(req: Request): Promise<void> {
   const contentTypeInfo = contentType.parse(req);
 
   if (contentTypeInfo.type === CONTENT_TYPE_JSON) {
-    const rawBody = await readRawBody(req, contentTypeInfo);
+    const rawBody = await readRawBody(req, contentTypeInfo, options);
+
+    req.body = parseJsonBody(rawBody, options.batching);
 
-    try {
-      req.body = parseJsonObject(rawBody);
+    return;
+  }
+
+  if (contentTypeInfo.type === CONTENT_TYPE_GRAPHQL) {
+    const rawBody = await readRawBody(req, contentTypeInfo, options);
+
+    req.body = { query: rawBody };
+
+    return;
+  }
 
+  if (contentTypeInfo.type === CONTENT_TYPE_MULTIPART_FORM_DATA) {
+    const { boundary } = contentTypeInfo.parameters;
+
+    if (boundary == null) {
       return;
-    } catch {
-      throw httpError(HTTP_STATUS_BAD_REQUEST, 'Request body is not a valid JSON object.');
     }
+
+    const operations = await readMultipartOperations(req, boundary, options.bodyLimit);
+
+    if (operations != null) {
+      await parseMultipartOperations(req, operations, options);
+    }
+
+    return;
   }
 
   if (contentTypeInfo.type === CONTENT_TYPE_FORM_URL_ENCODED) {
-    const rawBody = await readRawBody(req, contentTypeInfo);
+    const rawBody = await readRawBody(req, contentTypeInfo, options);
 
     req.body = querystring.parse(rawBody);
 
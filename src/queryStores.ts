@@ -0,0 +1,82 @@
+import { isFunction, isQueryStore, isString } from './typeguards';
+import type {
+  LooseQueryMap,
+  LooseQueryStore,
+  Maybe,
+  PersistedQuery,
+  PromiseOrValue,
+  QueryMapFn,
+  QueryStore,
+  Request,
+  RequestContext,
+} from './types';
+
+function getQueryText(persistedQuery: Maybe<PersistedQuery>): Maybe<string> {
+  return isString(persistedQuery) ? persistedQuery : persistedQuery?.query;
+}
+
+/**
+ * Creates a read-only query store from an object mapping query IDs to
+ * persisted queries.
+ * @param queryMap An object mapping query IDs to query text or to entries that
+ * hold the query text together with its cache policy.
+ * @returns A query store.
+ */
+export function createObjectQueryStore(
+  queryMap: Record<string, Maybe<PersistedQuery>>,
+): QueryStore<unknown> {
+  return {
+    get: (queryId): Maybe<PersistedQuery> =>
+      Object.prototype.hasOwnProperty.call(queryMap, queryId) ? queryMap[queryId] : null,
+    entries: (): [string, string][] =>
+      Object.entries(queryMap)
+        .map(([queryId, persistedQuery]): [string, Maybe<string>] => [
+          queryId,
+          getQueryText(persistedQuery),
+        ])
+        .filter((entry): entry is [string, string] => isString(entry[1])),
+  };
+}
+
+/**
+ * Creates a writable query store from a `Map` from query IDs to query text.
+ * Queries registered with `autoRegister` are added to the `Map`.
+ * @param queryMap A `Map` from query IDs to query text.
+ * @returns A query store.
+ */
+export function createMapQueryStore(queryMap: Map<string, string>): QueryStore<unknown> {
+  return {
+    get: (queryId): Maybe<string> => queryMap.get(queryId),
+    entries: (): Iterable<[string, string]> => queryMap.entries(),
+    set: (queryId, query): void => {
+      queryMap.set(queryId, query);
+    },
+  };
+}
+
+/**
+ * Creates a read-only query store from a function that receives the query ID
+ * and the context of the request as input and returns the persisted query,
+ * `null`, or a promise that resolves with a persisted query or `null`.
+ * @param queryMapFn A function that maps a query ID to query text.
+ * @returns A query store.
+ */
+export function createFunctionQueryStore<TRequest = Request>(
+  queryMapFn: QueryMapFn<TRequest>,
+): QueryStore<TRequest> {
+  return {
+    get: (queryId, context): PromiseOrValue<Maybe<PersistedQuery>> => queryMapFn(queryId, context),
+  };
+}
+
+export function toQueryStore(queryMap: LooseQueryMap): LooseQueryStore {
+  if (isFunction(queryMap)) {
+    return createFunctionQueryStore(queryMap as QueryMapFn<RequestContext>);
+  }
+
+  if (isQueryStore(queryMap)) {
+    return queryMap;
+  }
+
+  return createObjectQueryStore(queryMap as Record<string, Maybe<PersistedQuery>>);
+}
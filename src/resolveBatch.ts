@@ -0,0 +1,122 @@
+import type { HttpError } from 'http-errors';
+import { URLSearchParams } from 'url';
+import { HTTP_STATUS_BAD_REQUEST } from './constants';
+import { getRequestOutcome } from './createMetrics';
+import { getPersistedQuery } from './getPersistedQuery';
+import { createHttpError, toHttpError } from './httpErrors';
+import { isObject } from './typeguards';
+import type {
+  ParsedOptions,
+  RequestContext,
+  ResolveBatchResult,
+  ResolveErrorResult,
+} from './types';
+
+interface RequestParam {
+  method: string;
+  req: RequestContext;
+}
+
+interface Param extends ParsedOptions, RequestParam {
+  batch: unknown[];
+}
+
+interface ResolvedOperation {
+  error: HttpError | null;
+  operation: unknown;
+  strict: boolean;
+}
+
+async function resolveOperation(
+  options: ParsedOptions,
+  { method, req }: RequestParam,
+  operation: unknown,
+): Promise<ResolvedOperation> {
+  try {
+    if (!isObject(operation)) {
+      throw createHttpError(
+        HTTP_STATUS_BAD_REQUEST,
+        'INVALID_REQUEST_BODY',
+        'Batched operation must be a JSON object.',
+      );
+    }
+
+    const { persistedQuery, strict } = await getPersistedQuery({
+      ...options,
+      body: operation,
+      method,
+      req,
+      searchParams: new URLSearchParams(),
+    });
+
+    options.metrics?.recordRequest(persistedQuery == null ? 'ad_hoc' : 'hit');
+
+    return {
+      error: null,
+      operation: persistedQuery == null ? operation : { ...operation, query: persistedQuery.query },
+      strict,
+    };
+  } catch (unknownError: unknown) {
+    const error = toHttpError(unknownError);
+
+    options.metrics?.recordRequest(getRequestOutcome(error));
+
+    return { error, operation, strict: false };
+  }
+}
+
+export async function resolveBatch({
+  batch,
+  method,
+  req,
+  ...options
+}: Param): Promise<ResolveBatchResult | ResolveErrorResult> {
+  if (!batch.length) {
+    throw createHttpError(
+      HTTP_STATUS_BAD_REQUEST,
+      'EMPTY_BATCH',
+      'Request body must not be an empty batch.',
+    );
+  }
+
+  if (batch.length > options.maxBatchSize) {
+    throw createHttpError(
+      HTTP_STATUS_BAD_REQUEST,
+      'BATCH_TOO_LARGE',
+      `Batch size ${batch.length} exceeds the maximum of ${options.maxBatchSize}.`,
+    );
+  }
+
+  const resolvedOperations = await Promise.all(
+    batch.map(async (operation) => resolveOperation(options, { method, req }, operation)),
+  );
+  const firstError = resolvedOperations.find(({ error }) => error != null)?.error;
+  // The operations that failed are not strict, so this is the decision of the
+  // operations that were resolved, which all depend on the same request.
+  const strict = resolvedOperations.some((resolvedOperation) => resolvedOperation.strict);
+
+  if (firstError == null) {
+    return { body: resolvedOperations.map(({ operation }) => operation), strict, type: 'batch' };
+  }
+
+  if (options.partialBatches && resolvedOperations.some(({ error }) => error == null)) {
+    return {
+      body: resolvedOperations.map(({ error, operation }) => (error == null ? operation : null)),
+      errors: resolvedOperations.map(({ error }) => error),
+      strict,
+      type: 'batch',
+    };
+  }
+
+  const notExecutedError = createHttpError(
+    HTTP_STATUS_BAD_REQUEST,
+    'BATCH_OPERATION_NOT_EXECUTED',
+    'The operation was not executed because another operation in the batch failed.',
+  );
+
+  return {
+    batchErrors: resolvedOperations.map(({ error }) => error ?? notExecutedError),
+    error: firstError,
+    type: 'error',
+  };
+}
@@ -0,0 +1,63 @@
+import { URLSearchParams } from 'url';
+import { getRequestOutcome } from './createMetrics';
+import { getPersistedQuery } from './getPersistedQuery';
+import { toHttpError } from './httpErrors';
+import { resolveBatch } from './resolveBatch';
+import { isObject } from './typeguards';
+import type { ParsedOptions, RequestContext, ResolveInput, ResolveResult } from './types';
+
+function getSearchParams({ searchParams, url = '/' }: ResolveInput): URLSearchParams {
+  return new URLSearchParams(searchParams ?? url.split('?')[1]);
+}
+
+/**
+ * Resolves the persisted query of a request from its method, URL or search
+ * params, headers, and parsed body, without mutating the body. Callbacks that
+ * receive the request, such as `strict`, get `req`, which defaults to the
+ * input itself. Errors are returned rather than thrown, and are counted by
+ * `options.metrics` together with the other outcomes.
+ */
+export async function resolveRequest(
+  options: ParsedOptions,
+  input: ResolveInput,
+  req: RequestContext = input,
+): Promise<ResolveResult> {
+  const { body } = input;
+  // The keys of `options.allowedOperationTypes` are upper-cased when parsed.
+  const method = input.method.toUpperCase();
+
+  try {
+    if (options.batching && Array.isArray(body)) {
+      return await resolveBatch({ ...options, batch: body, method, req });
+    }
+
+    const { persistedQuery, strict } = await getPersistedQuery({
+      ...options,
+      body,
+      method,
+      req,
+      searchParams: getSearchParams(input),
+    });
+
+    options.metrics?.recordRequest(persistedQuery == null ? 'ad_hoc' : 'hit');
+
+    if (persistedQuery == null) {
+      return { body, strict, type: 'passthrough' };
+    }
+
+    return {
+      body: isObject(body)
+        ? { ...body, query: persistedQuery.query }
+        : { query: persistedQuery.query },
+      persistedQuery,
+      strict,
+      type: 'persistedQuery',
+    };
+  } catch (unknownError: unknown) {
+    const error = toHttpError(unknownError);
+
+    options.metrics?.recordRequest(getRequestOutcome(error));
+
+    return { error, type: 'error' };
+  }
+}
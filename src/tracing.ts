@@ -0,0 +1,150 @@
+import type * as OpenTelemetry from '@opentelemetry/api';
+import type { HttpError } from 'http-errors';
+import type { Maybe, ParsedTracing, Request, RequestContext } from './types';
+
+const TRACER_NAME = 'express-graphql-persisted-queries';
+const SPAN_NAME = 'persistedQueries';
+
+interface TraceAttributes {
+  errorCode?: string;
+  operationName?: Maybe<string>;
+  operationType?: string;
+  outcome?: string;
+  queryId?: string;
+}
+
+const ATTRIBUTE_NAMES: Record<keyof TraceAttributes, string> = {
+  errorCode: 'graphql.persisted_query.error_code',
+  operationName: 'graphql.operation.name',
+  operationType: 'graphql.operation.type',
+  outcome: 'graphql.persisted_query.outcome',
+  queryId: 'graphql.persisted_query.id',
+};
+
+interface Trace {
+  api: typeof OpenTelemetry;
+  context: OpenTelemetry.Context;
+  span: OpenTelemetry.Span;
+}
+
+const traces = new WeakMap<RequestContext, Trace>();
+
+async function importOpenTelemetryApi(): Promise<typeof OpenTelemetry> {
+  try {
+    return await import('@opentelemetry/api');
+  } catch {
+    /* istanbul ignore next: @opentelemetry/api is installed in development */
+    throw new TypeError(
+      'options.tracing requires the "@opentelemetry/api" package to be installed.',
+    );
+  }
+}
+
+function toSpanAttributes(attributes: TraceAttributes): OpenTelemetry.SpanAttributes {
+  const spanAttributes: OpenTelemetry.SpanAttributes = {};
+
+  const entries = Object.entries(attributes) as [keyof TraceAttributes, Maybe<string>][];
+
+  for (const [key, value] of entries) {
+    if (value != null) {
+      spanAttributes[ATTRIBUTE_NAMES[key]] = value;
+    }
+  }
+
+  return spanAttributes;
+}
+
+/**
+ * Loads `@opentelemetry/api`, which is an optional peer dependency, so that
+ * the middleware only imports it when `options.tracing` is `true`.
+ */
+export async function loadTracing(): Promise<ParsedTracing> {
+  const api = await importOpenTelemetryApi();
+
+  return {
+    startTrace(req, startTime): void {
+      const span = api.trace
+        .getTracer(TRACER_NAME)
+        .startSpan(SPAN_NAME, { kind: api.SpanKind.INTERNAL, startTime });
+
+      traces.set(req, { api, context: api.trace.setSpan(api.context.active(), span), span });
+    },
+  };
+}
+
+/**
+ * Records a child span of the span of the middleware that started at
+ * `startTime` and ends now. Does nothing when the request isn't traced.
+ */
+export function recordSpan(
+  req: RequestContext,
+  name: string,
+  startTime: number,
+  attributes: TraceAttributes = {},
+): void {
+  const trace = traces.get(req);
+
+  if (trace == null) {
+    return;
+  }
+
+  trace.api.trace
+    .getTracer(TRACER_NAME)
+    .startSpan(
+      `${SPAN_NAME}.${name}`,
+      { attributes: toSpanAttributes(attributes), startTime },
+      trace.context,
+    )
+    .end();
+}
+
+/**
+ * Sets attributes, such as the query ID, on the span of the middleware. Does
+ * nothing when the request isn't traced.
+ */
+export function setTraceAttributes(req: Request, attributes: TraceAttributes): void {
+  traces.get(req)?.span.setAttributes(toSpanAttributes(attributes));
+}
+
+/**
+ * Ends the span of the middleware, marking it as failed if there's an error.
+ * Does nothing when the request isn't traced.
+ */
+export function endTrace(req: Request, error?: HttpError): void {
+  const trace = traces.get(req);
+
+  if (trace == null) {
+    return;
+  }
+
+  if (error != null) {
+    trace.span.recordException(error);
+    trace.span.setStatus({ code: trace.api.SpanStatusCode.ERROR, message: error.message });
+    trace.span.setAttributes(
+      toSpanAttributes({
+        errorCode: String((error.extensions as Record<string, unknown>).code),
+        outcome: 'rejected',
+      }),
+    );
+  }
+
+  trace.span.end();
+}
+
+/**
+ * Runs a function, such as the `next` callback of the middleware, in the
+ * context of the span of the middleware, so that the spans of the downstream
+ * handler are its children.
+ */
+export function runInTraceContext(req: Request, fn: () => void): void {
+  const trace = traces.get(req);
+
+  if (trace == null) {
+    fn();
+
+    return;
+  }
+
+  traces.delete(req);
+  trace.api.context.with(trace.context, fn);
+}
@@ -1,4 +1,4 @@
-import type { AnyFunction, Maybe } from './types';
+import type { AnyFunction, LooseQueryStore, Maybe, Metrics, UsageRecorder } from './types';
 
 export function isFunction(value: unknown): value is AnyFunction {
   return typeof value === 'function';
@@ -8,10 +8,37 @@ export function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
 
+export function isMetrics(value: unknown): value is Metrics {
+  return (
+    isObject(value) &&
+    isFunction(value.observeLookUp) &&
+    isFunction(value.recordRequest) &&
+    isFunction(value.render)
+  );
+}
+
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return isObject(value) && isFunction(value.then);
+}
+
+export function isQueryStore(value: unknown): value is LooseQueryStore {
+  return isObject(value) && isFunction(value.get) && (value.set == null || isFunction(value.set));
+}
+
+export function isWritableQueryStore(
+  value: LooseQueryStore,
+): value is LooseQueryStore & Pick<Required<LooseQueryStore>, 'set'> {
+  return isFunction(value.set);
+}
+
 export function isString(value: unknown): value is string {
   return typeof value === 'string';
 }
 
+export function isUsageRecorder(value: unknown): value is UsageRecorder {
+  return isObject(value) && isFunction(value.record);
+}
+
 export function nonNull<T>(value: Maybe<T>): value is T {
   return value != null;
 }
@@ -1,4 +1,14 @@
-import type { IncomingMessage, ServerResponse } from 'http';
+import type {
+  FormattedExecutionResult,
+  GraphQLError,
+  GraphQLFormattedError,
+  GraphQLSchema,
+  OperationDefinitionNode,
+} from 'graphql';
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import type { HttpError } from 'http-errors';
+import type { Transform } from 'stream';
+import type { URLSearchParams } from 'url';
 
 export type Maybe<T> = T | null | undefined;
 
@@ -6,8 +16,26 @@ export type PromiseOrValue<T> = Promise<T> | T;
 
 export type AnyFunction = (...args: unknown[]) => unknown;
 
+export interface PersistedQueryInfo {
+  /**
+   * When `partialBatches` is `true` and some operations of a batch failed, the
+   * error result of each operation, in the order of the batch, or `null` for
+   * the operations that were resolved. The failed operations are `null` in
+   * `req.body`, so the GraphQL executor should respond with these results for
+   * them instead of executing them.
+   */
+  batchErrors?: (FormattedExecutionResult | null)[];
+
+  /**
+   * Whether only persisted queries are allowed for the request, according to
+   * the `strict` option.
+   */
+  strict: boolean;
+}
+
 export interface Request extends IncomingMessage {
   body?: unknown;
+  persistedQuery?: PersistedQueryInfo;
   url: string;
 }
 
@@ -17,15 +45,1035 @@ export type NextFn = (param?: unknown) => void;
 
 export type Middleware = (req: Request, res: Response, next: NextFn) => void;
 
-export type QueryMapFn = (queryId: string) => PromiseOrValue<Maybe<string>>;
+/**
+ * A middleware with a `ready` method to await when the server starts.
+ */
+export interface PersistedQueriesMiddleware extends Middleware {
+  /**
+   * Resolves once the options are resolved and the persisted queries are
+   * validated against `options.schema`. Rejects with the error that makes every
+   * request fail otherwise, such as the list of the invalid persisted queries
+   * in strict mode, so that the server can fail to start instead.
+   */
+  ready: () => Promise<void>;
+}
+
+export type Handler = (req: Request, res: Response, next: NextFn) => PromiseOrValue<void>;
+
+/**
+ * A handler for `http.createServer` that resolves with `true` when the request
+ * should continue to the GraphQL handler, or with `false` when a response was
+ * already sent.
+ */
+export type HttpHandler = (req: IncomingMessage, res: ServerResponse) => Promise<boolean>;
+
+/**
+ * The parts of a Koa context used by the Koa adapter.
+ */
+export interface KoaContext {
+  req: IncomingMessage;
+  request: { body?: unknown };
+  res: ServerResponse;
+  respond?: boolean;
+}
+
+export type KoaMiddleware = (ctx: KoaContext, next: () => Promise<unknown>) => Promise<void>;
+
+/**
+ * The parts of a Fastify request used by the Fastify adapter.
+ */
+export interface FastifyRequest {
+  body?: unknown;
+  raw: IncomingMessage;
+}
+
+/**
+ * The parts of a Fastify reply used by the Fastify adapter.
+ */
+export interface FastifyReply {
+  hijack: () => unknown;
+  raw: ServerResponse;
+}
+
+export type FastifyPreHandler = (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+
+/**
+ * The parts of a `graphql-ws` context used by the `graphql-ws` adapter.
+ */
+export interface GraphQLWsContext {
+  /**
+   * The extra of the server, whose `request` is the upgrade request when using
+   * the `ws` server of `graphql-ws`.
+   */
+  extra?: unknown;
+}
+
+/**
+ * The parts of a `graphql-ws` subscribe message used by the `graphql-ws`
+ * adapter.
+ */
+export interface GraphQLWsSubscribeMessage {
+  payload: {
+    extensions?: Maybe<Record<string, unknown>>;
+    operationName?: Maybe<string>;
+    query: string;
+    variables?: Maybe<Record<string, unknown>>;
+  };
+}
+
+export type GraphQLWsOnSubscribe = (
+  ctx: GraphQLWsContext,
+  message: GraphQLWsSubscribeMessage,
+) => Promise<readonly GraphQLError[] | undefined>;
+
+export type OperationType = 'mutation' | 'query' | 'subscription';
+
+export type ErrorCode =
+  | 'BATCH_OPERATION_NOT_EXECUTED'
+  | 'BATCH_TOO_LARGE'
+  | 'BODY_TOO_LARGE'
+  | 'EMPTY_BATCH'
+  | 'INTERNAL_SERVER_ERROR'
+  | 'INVALID_PERSISTED_QUERY_EXTENSION'
+  | 'INVALID_REQUEST_BODY'
+  | 'OPERATION_NOT_ALLOWED'
+  | 'PERSISTED_QUERY_HASH_MISMATCH'
+  | 'PERSISTED_QUERY_INVALID'
+  | 'PERSISTED_QUERY_NOT_FOUND'
+  | 'PERSISTED_QUERY_NOT_SUPPORTED'
+  | 'PERSISTED_QUERY_REQUIRED'
+  | 'UNSUPPORTED_CHARSET'
+  | 'UNSUPPORTED_CONTENT_ENCODING';
+
+export type FormatErrorFn<TRequest = Request> = (
+  error: GraphQLFormattedError,
+  req: TRequest,
+) => GraphQLFormattedError;
+
+export type ErrorHandling = 'next' | 'respond';
+
+export type OnErrorFn<TRequest = Request> = (error: HttpError, req: TRequest) => void;
+
+export type StrictFn<TRequest = Request> = (req: TRequest) => PromiseOrValue<boolean>;
+
+export type LooseStrictFn = (req: RequestContext) => unknown;
+
+export type HashFn = (query: string) => PromiseOrValue<string>;
+
+export type LooseHashFn = (query: string) => unknown;
+
+export type ContentDecoderFn = () => Transform;
+
+export type CharsetDecoderFn = (body: Buffer, charset: string) => PromiseOrValue<Maybe<string>>;
+
+export interface QueryMapContext<TRequest = Request> {
+  /**
+   * The request body, parsed according to its content type.
+   */
+  body: unknown;
+
+  /**
+   * The key in the search params or request body that specifies the ID of the
+   * persisted query.
+   */
+  queryIdKey: string;
+
+  /**
+   * The request whose persisted query is looked up, or the input of a
+   * `PersistedQueryResolver`.
+   */
+  req: TRequest;
+
+  /**
+   * The search params of the request URL.
+   */
+  searchParams: URLSearchParams;
+}
+
+export interface CachePolicy {
+  /**
+   * The number of seconds for which the response can be cached.
+   */
+  maxAge?: number;
+
+  /**
+   * Whether the response can be cached by shared caches, such as CDNs
+   * (`'public'`), or only by the browser (`'private'`).
+   */
+  scope?: 'private' | 'public';
+
+  /**
+   * The number of seconds for which a stale response can be served while it
+   * is revalidated in the background.
+   */
+  staleWhileRevalidate?: number;
+}
+
+export interface PersistedQueryEntry {
+  /**
+   * The cache policy of the responses to the query, which overrides the
+   * `cacheControl` option.
+   */
+  cachePolicy?: CachePolicy;
+
+  /**
+   * The query text.
+   */
+  query: string;
+}
+
+/**
+ * A persisted query, either as query text or as an entry that holds the query
+ * text together with its cache policy.
+ */
+export type PersistedQuery = PersistedQueryEntry | string;
+
+/**
+ * A function that receives the query ID as input and returns the persisted
+ * query, `null`, or a promise that resolves with a persisted query or `null`.
+ * When called by the middleware, it also receives the context of the request,
+ * which allows scoping lookups by tenant, user, or header.
+ */
+export type QueryMapFn<TRequest = Request> = (
+  queryId: string,
+  context?: QueryMapContext<TRequest>,
+) => PromiseOrValue<Maybe<PersistedQuery>>;
+
+export type LooseQueryMapFn = (
+  queryId: string,
+  context?: QueryMapContext<RequestContext>,
+) => unknown;
+
+/**
+ * A store of persisted queries. `get` receives the query ID and the context of
+ * the request as input and returns the query text, `null`, or a promise that
+ * resolves with query text or `null`.
+ * The optional `set` persists a new query when `autoRegister` is enabled. When
+ * `set` returns a promise, the middleware waits for it to settle. The optional
+ * `entries` lists all persisted queries, which allows validating them against
+ * the `schema` option. A `Map` from query IDs to query text is a valid store.
+ */
+export interface QueryStore<TRequest = Request> {
+  entries?: () => PromiseOrValue<Iterable<[string, string]>>;
+  get: QueryMapFn<TRequest>;
+  set?: (queryId: string, query: string) => unknown;
+}
+
+export interface LooseQueryStore {
+  entries?: () => unknown;
+  get: LooseQueryMapFn;
+  set?: (queryId: string, query: string) => unknown;
+}
+
+export type QueryMap<TRequest = Request> =
+  | QueryMapFn<TRequest>
+  | QueryStore<TRequest>
+  | Record<string, Maybe<PersistedQuery>>;
+
+export type LooseQueryMap = LooseQueryMapFn | LooseQueryStore | Record<string, unknown>;
+
+export interface CacheOptions {
+  /**
+   * The maximum number of query IDs kept in the cache. When the cache is full,
+   * the least recently used query ID is evicted. Defaults to `1000`.
+   */
+  maxSize?: number;
+
+  /**
+   * The number of milliseconds for which a query that was found is cached.
+   * Defaults to `Infinity`, meaning that found queries never expire.
+   */
+  ttl?: number;
+
+  /**
+   * The number of milliseconds for which a query ID that did not match any
+   * query is cached. Defaults to `0`, meaning that such query IDs are not
+   * cached.
+   */
+  negativeTtl?: number;
+}
+
+export interface CacheStats {
+  /**
+   * The number of lookups served from the cache.
+   */
+  hits: number;
+
+  /**
+   * The number of lookups that were forwarded to the underlying store.
+   */
+  misses: number;
+
+  /**
+   * The number of query IDs currently in the cache.
+   */
+  size: number;
+}
+
+export interface CachedQueryStore<TRequest = Request> extends QueryStore<TRequest> {
+  /**
+   * Removes all query IDs from the cache.
+   */
+  clear: () => void;
+
+  /**
+   * Removes a query ID from the cache.
+   */
+  delete: (queryId: string) => void;
+
+  /**
+   * Returns the hit and miss counters and the current size of the cache.
+   */
+  getStats: () => CacheStats;
+}
+
+/**
+ * The outcome of a request, or of an operation of a batch, as counted by
+ * `Metrics`: a persisted query was found or registered (`hit`), a query ID did
+ * not match any persisted query (`miss`), a query without a query ID was
+ * allowed (`ad_hoc`), a query was rejected by strict mode
+ * (`strict_rejection`), the request body could not be read or parsed
+ * (`parse_error`), or the request failed for any other reason (`error`).
+ */
+export type RequestOutcome =
+  | 'ad_hoc'
+  | 'error'
+  | 'hit'
+  | 'miss'
+  | 'parse_error'
+  | 'strict_rejection';
+
+export type LookUpOutcome = MissEvent['outcome'] | ResolveEvent['outcome'];
+
+export interface MetricsOptions {
+  /**
+   * The upper bounds, in seconds, of the buckets of the lookup latency
+   * histogram, in increasing order. Defaults to
+   * `[0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1]`.
+   */
+  buckets?: number[];
+
+  /**
+   * The maximum number of query IDs whose usage is counted separately, which
+   * bounds the cardinality of the `query_id` label. Usage of any further query
+   * ID is counted under the `__other__` query ID. Defaults to `1000`.
+   */
+  maxQueryIds?: number;
+
+  /**
+   * The prefix of the names of all metrics. Defaults to `persisted_queries_`.
+   */
+  prefix?: string;
+}
+
+export interface Metrics {
+  /**
+   * The `Content-Type` of the Prometheus text exposition format, which should
+   * be set on the response that serves `render()`.
+   */
+  contentType: string;
+
+  /**
+   * Records the outcome and the duration, in milliseconds, of a lookup of a
+   * query ID, and counts the usage of the query ID if it was found or
+   * registered. Called by the middleware.
+   */
+  observeLookUp: (outcome: LookUpOutcome, queryId: string, duration: number) => void;
+
+  /**
+   * Counts a request, or an operation of a batch, by its outcome. Called by
+   * the middleware.
+   */
+  recordRequest: (outcome: RequestOutcome) => void;
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   */
+  render: () => string;
+
+  /**
+   * Resets all metrics to their initial state.
+   */
+  reset: () => void;
+}
+
+export type ManifestFormat = 'apollo' | 'graphql-codegen' | 'relay';
+
+export interface ManifestOptions {
+  /**
+   * The format of the manifest. When omitted, it is detected from the manifest
+   * contents: a manifest with an `operations` array is treated as an Apollo
+   * manifest, and any other object as a mapping from query IDs to query text,
+   * as generated by `relay-compiler` and GraphQL Code Generator.
+   */
+  format?: ManifestFormat;
+
+  /**
+   * A description of where the manifest comes from, such as its file path,
+   * which is included in error messages.
+   */
+  source?: string;
+}
+
+export interface ReloadEvent {
+  /**
+   * The path of the manifest file or directory that was loaded.
+   */
+  path: string;
+
+  /**
+   * The number of queries that the store serves after loading.
+   */
+  queryCount: number;
+}
+
+export interface BodyParsedEvent {
+  /**
+   * The request body, which is `undefined` if its content type is not
+   * supported.
+   */
+  body: unknown;
+
+  /**
+   * The number of milliseconds spent reading and parsing the request body.
+   */
+  duration: number;
+
+  /**
+   * The request.
+   */
+  req: Request;
+}
+
+export interface ResolveEvent<TRequest = Request> {
+  /**
+   * The number of milliseconds spent looking up the query ID in the query maps
+   * and, when it was registered, registering the query.
+   */
+  duration: number;
+
+  /**
+   * Whether the query ID matched a persisted query (`'found'`) or the query
+   * provided by the request was registered under it (`'registered'`).
+   */
+  outcome: 'found' | 'registered';
+
+  /**
+   * The query ID, which is the hash of the `persistedQuery` extension for APQ
+   * requests.
+   */
+  queryId: string;
+
+  /**
+   * The request, or the input of a `PersistedQueryResolver`.
+   */
+  req: TRequest;
+}
+
+export interface MissEvent<TRequest = Request> {
+  /**
+   * The number of milliseconds spent looking up the query ID in the query maps.
+   */
+  duration: number;
+
+  /**
+   * Whether the query provided by the request is executed instead
+   * (`'executed'`), which happens for APQ requests outside of strict mode, or
+   * the request results in an error response (`'rejected'`).
+   */
+  outcome: 'executed' | 'rejected';
+
+  /**
+   * The query ID, which is the hash of the `persistedQuery` extension for APQ
+   * requests.
+   */
+  queryId: string;
+
+  /**
+   * The request, or the input of a `PersistedQueryResolver`.
+   */
+  req: TRequest;
+}
+
+export interface RejectStrictEvent<TRequest = Request> {
+  /**
+   * The query ID provided by the request, if any.
+   */
+  queryId: string | null;
+
+  /**
+   * Whether the request was rejected because it provides the query text
+   * (`'query'`) or because it does not provide a query ID (`'missingQueryId'`).
+   */
+  reason: 'missingQueryId' | 'query';
+
+  /**
+   * The request, or the input of a `PersistedQueryResolver`.
+   */
+  req: TRequest;
+}
+
+export interface FileQueryStoreOptions {
+  /**
+   * The number of milliseconds to wait after a change to the manifests before
+   * reloading them, so that several changes in a row result in one reload.
+   * Defaults to `100`.
+   */
+  debounce?: number;
+
+  /**
+   * The format of the manifests. When omitted, it is detected from the
+   * contents of each manifest.
+   */
+  format?: ManifestFormat;
+
+  /**
+   * A function called every time the manifests are loaded successfully.
+   */
+  onReload?: (event: ReloadEvent) => void;
+
+  /**
+   * A function called every time the manifests fail to load. Defaults to
+   * `console.error`.
+   */
+  onReloadError?: (error: unknown) => void;
+
+  /**
+   * The path to a manifest file or to a directory whose `.json` files are
+   * manifests.
+   */
+  path: string;
+
+  /**
+   * The GraphQL schema to validate the queries against every time the
+   * manifests are loaded. Manifests with invalid queries fail to load, so the
+   * store keeps serving the previous queries.
+   */
+  schema?: GraphQLSchema;
+
+  /**
+   * Specifies whether the manifests are reloaded when they change. Defaults to
+   * `true`.
+   */
+  watch?: boolean;
+}
+
+export interface FileQueryStore extends QueryStore<unknown> {
+  /**
+   * Stops watching the manifests for changes.
+   */
+  close: () => void;
+
+  /**
+   * Reloads the manifests. The returned promise rejects if they fail to load,
+   * in which case the store keeps serving the previous queries.
+   */
+  reload: () => Promise<void>;
+}
 
-export type LooseQueryMapFn = (queryId: string) => unknown;
+export interface InvalidPersistedQuery {
+  /**
+   * The errors that occurred when parsing or validating the query.
+   */
+  errors: readonly GraphQLError[];
 
-export type QueryMap = QueryMapFn | Record<string, Maybe<string>>;
+  /**
+   * The ID of the invalid query.
+   */
+  queryId: string;
+}
+
+export interface PersistedQueryValidationReport {
+  /**
+   * The queries that are invalid against the schema.
+   */
+  invalid: InvalidPersistedQuery[];
+
+  /**
+   * The IDs of the queries that are valid against the schema.
+   */
+  valid: string[];
+}
 
-export type LooseQueryMap = LooseQueryMapFn | Record<string, unknown>;
+export interface QueryUsage {
+  /**
+   * The number of times the query ID was resolved to a persisted query.
+   */
+  calls: number;
+
+  /**
+   * The time, in milliseconds since the Unix epoch, at which the query ID was
+   * first resolved.
+   */
+  firstSeen: number;
+
+  /**
+   * The time, in milliseconds since the Unix epoch, at which the query ID was
+   * last resolved.
+   */
+  lastSeen: number;
+}
+
+/**
+ * Where a usage recorder persists the usage of query IDs. `save` receives the
+ * usage of all query IDs recorded so far. The optional `load` returns the
+ * usage that was saved previously, such as before the server restarted, which
+ * is merged into the usage that the recorder tracks.
+ */
+export interface UsageSink {
+  load?: () => PromiseOrValue<Maybe<Record<string, QueryUsage>>>;
+  save: (usage: Record<string, QueryUsage>) => unknown;
+}
+
+export interface UsageRecorderOptions {
+  /**
+   * The number of milliseconds between two flushes of the usage to `sink`.
+   * `0` disables periodic flushes, so the usage is only flushed by calling
+   * `flush` or `close`. Defaults to `60000`.
+   */
+  flushInterval?: number;
+
+  /**
+   * A function called every time the usage fails to be loaded from or flushed
+   * to `sink` in the background. Defaults to `console.error`.
+   */
+  onFlushError?: (error: unknown) => void;
+
+  /**
+   * Where the usage is persisted. When omitted, the usage is only kept in
+   * memory.
+   */
+  sink?: UsageSink;
+}
+
+export interface UsageRecorder {
+  /**
+   * Stops the periodic flushes and flushes the usage to the sink one last
+   * time.
+   */
+  close: () => Promise<void>;
+
+  /**
+   * Saves the usage of all query IDs to the sink.
+   */
+  flush: () => Promise<void>;
+
+  /**
+   * Returns the usage of all query IDs, including the usage loaded from the
+   * sink.
+   */
+  getUsage: () => Promise<Record<string, QueryUsage>>;
+
+  /**
+   * Records that a query ID was resolved to a persisted query. Called by the
+   * middleware.
+   */
+  record: (queryId: string) => void;
+}
+
+export interface NamespaceOptions<TRequest = Request> {
+  /**
+   * Where to look up a query ID that does not match any query of this
+   * namespace. Either the name of another namespace, whose own `fallback` is
+   * then followed, `true` to look it up in the top-level `queryMap`, or `false`
+   * to not look it up anywhere else. Defaults to `true`.
+   */
+  fallback?: boolean | string;
+
+  /**
+   * The persisted queries of this namespace, in any of the forms accepted by
+   * the top-level `queryMap` option.
+   */
+  queryMap: PromiseOrValue<QueryMap<TRequest>>;
+
+  /**
+   * Specifies whether only persisted queries are allowed for requests in this
+   * namespace, in any of the forms accepted by the top-level `strict` option.
+   * Defaults to the top-level `strict` option.
+   */
+  strict?: StrictFn<TRequest> | boolean;
+}
+
+export type ResolveNamespaceFn<TRequest = Request> = (
+  req: TRequest,
+) => PromiseOrValue<Maybe<string | readonly string[]>>;
+
+export type LooseResolveNamespaceFn = (req: RequestContext) => unknown;
+
+export interface ParsedNamespace {
+  queryStore: LooseQueryStore;
+  queryStores: LooseQueryStore[];
+  strict: LooseStrictFn;
+}
+
+export interface CacheControlOptions extends CachePolicy {
+  /**
+   * Specifies whether an `ETag` header derived from the query ID, the query
+   * text, the operation name, and the variables is emitted. Defaults to
+   * `true`.
+   */
+  etag?: boolean;
+
+  /**
+   * The request headers that the responses vary by, which are appended to the
+   * `Vary` header set by previous middleware, if any. When `namespaces` is
+   * used with the default `resolveNamespace`, the client name and version
+   * headers are added.
+   */
+  vary?: readonly string[];
+}
+
+export interface ParsedCacheControl {
+  etag: boolean;
+  policy: CachePolicy;
+  vary: string[];
+}
+
+export interface ParsedTracing {
+  /**
+   * Starts the span of the middleware for a request, which is the parent of
+   * the spans recorded for it. Its start time is passed explicitly, since
+   * whether tracing is enabled is only known once the options are resolved.
+   */
+  startTrace: (req: Request, startTime: number) => void;
+}
+
+export interface ResolvedPersistedQuery {
+  /**
+   * The cache policy of the persisted query, as returned by the query map.
+   */
+  cachePolicy: unknown;
+
+  /**
+   * The operation of the query that is executed according to the
+   * `operationName` of the request.
+   */
+  operation: Maybe<OperationDefinitionNode>;
+
+  /**
+   * Whether the query ID was found in a query map or registered with
+   * `autoRegister`.
+   */
+  outcome: ResolveEvent['outcome'];
+
+  /**
+   * The query text of the persisted query.
+   */
+  query: string;
+
+  /**
+   * The query ID of the persisted query.
+   */
+  queryId: string;
+}
+
+export interface ResolveInput {
+  /**
+   * The parsed request body, such as a JSON object, or an array of
+   * operations when `batching` is `true`.
+   */
+  body?: unknown;
+
+  /**
+   * The request headers, with lowercase names, which are used to resolve the
+   * namespace of the request.
+   */
+  headers?: IncomingHttpHeaders;
+
+  /**
+   * The HTTP method of the request, such as `GET` or `POST`, which determines
+   * the allowed operation types.
+   */
+  method: string;
+
+  /**
+   * The search params of the request, which take precedence over those of
+   * `url`.
+   */
+  searchParams?: Record<string, string> | URLSearchParams | string;
+
+  /**
+   * The URL of the request, whose search params may hold the query ID.
+   * Defaults to `/`.
+   */
+  url?: string;
+}
+
+/**
+ * The request passed to the callbacks of the options, such as `strict`: the
+ * request of the middleware, or the input of a `PersistedQueryResolver`.
+ */
+export type RequestContext = Request | ResolveInput;
+
+export interface ResolvePersistedQueryResult {
+  /**
+   * The request body with the query text of the persisted query under
+   * `query`.
+   */
+  body: Record<string, unknown>;
+  persistedQuery: ResolvedPersistedQuery;
+
+  /**
+   * Whether only persisted queries are allowed for the request, according to
+   * the `strict` option.
+   */
+  strict: boolean;
+  type: 'persistedQuery';
+}
+
+export interface ResolvePassthroughResult {
+  /**
+   * The request body, which is unchanged since the request doesn't use a
+   * persisted query.
+   */
+  body: unknown;
+
+  /**
+   * Whether only persisted queries are allowed for the request, according to
+   * the `strict` option.
+   */
+  strict: boolean;
+  type: 'passthrough';
+}
+
+export interface ResolveBatchResult {
+  /**
+   * The operations of the batch, with the query text of their persisted query
+   * under `query`.
+   */
+  body: unknown[];
+
+  /**
+   * When `partialBatches` is `true` and some operations failed, the error of
+   * each operation, in the order of the batch, or `null` for the operations
+   * that were resolved. The failed operations are `null` in `body`.
+   */
+  errors?: (HttpError | null)[];
+
+  /**
+   * Whether only persisted queries are allowed for the request, according to
+   * the `strict` option.
+   */
+  strict: boolean;
+  type: 'batch';
+}
+
+export interface ResolveErrorResult {
+  /**
+   * For a batch, the errors of each operation, in the order of the batch.
+   */
+  batchErrors?: HttpError[];
+
+  /**
+   * The error, whose `statusCode` is the status code of the error response
+   * and whose `extensions.code` is an `ErrorCode`.
+   */
+  error: HttpError;
+  type: 'error';
+}
+
+export type ResolveResult =
+  | ResolveBatchResult
+  | ResolveErrorResult
+  | ResolvePassthroughResult
+  | ResolvePersistedQueryResult;
+
+export type PersistedQueryResolver = (input: ResolveInput) => Promise<ResolveResult>;
+
+export interface OptionsData<TRequest = Request> {
+  /**
+   * The operation types that persisted queries can perform for each HTTP
+   * method, whose name is case-insensitive. Methods that are not specified
+   * allow all operation types. A request whose persisted query performs an
+   * operation type that is not allowed for its method results in a
+   * `405 Method Not Allowed` error response. Defaults to `{ get: ['query'] }`,
+   * which prevents a plain GET request, such as one made by an `<img>` tag,
+   * from triggering a persisted mutation.
+   */
+  allowedOperationTypes?: Record<string, readonly OperationType[]>;
+
+  /**
+   * Specifies whether a request that provides the query text of a query ID
+   * that does not match any persisted query registers that query, so that
+   * later requests can provide only the query ID. This requires `queryMap` to
+   * be a `QueryStore` with a `set` method. Registration is disabled when
+   * `strict` is `true`, unless `allowAutoRegisterInStrictMode` is also `true`.
+   */
+  autoRegister?: boolean;
+
+  /**
+   * Specifies whether `autoRegister` also applies when `strict` is `true`. In
+   * that case, a request can provide the query text only together with a query
+   * ID.
+   */
+  allowAutoRegisterInStrictMode?: boolean;
+
+  /**
+   * Specifies whether the Apollo Automatic Persisted Queries protocol is
+   * supported. When `apq` is `true`, the query ID can also be provided as the
+   * `sha256Hash` of the `persistedQuery` extension, and a query ID that does
+   * not match any persisted query results in a `PersistedQueryNotFound` error,
+   * which tells Apollo Client to retry with the full query text. When `apq` is
+   * `false`, such requests result in a `PersistedQueryNotSupported` error.
+   */
+  apq?: boolean;
+
+  /**
+   * Specifies whether a request body can be an array of operations, as sent by
+   * the batch links of Relay and Apollo Client. The query ID of each operation
+   * is resolved independently, and the resolved array is left on `req.body` for
+   * a GraphQL executor that supports batching. If any operation fails, the
+   * middleware responds with an array that holds the errors of each operation.
+   */
+  batching?: boolean;
+
+  /**
+   * The maximum size of a request body that the middleware parses, after it's
+   * decoded according to its `Content-Encoding`. Either a number of bytes or a
+   * string with a unit, such as `'512kb'` or `'1mb'`. Larger bodies result in a
+   * `413 Payload Too Large` error response. Defaults to `'100kb'`.
+   */
+  bodyLimit?: number | string;
+
+  /**
+   * Specifies whether HTTP caching headers are emitted for the successful
+   * responses to GET requests with a persisted query, and the default cache
+   * policy of those responses. `true` emits `Cache-Control: public, max-age=0`.
+   * An entry of `queryMap` can override the cache policy of its query.
+   * Responses to mutations and subscriptions get `Cache-Control: no-store`.
+   * Defaults to `false`.
+   */
+  cacheControl?: CacheControlOptions | boolean;
+
+  /**
+   * Functions that create a stream that decodes a request body, keyed by the
+   * case-insensitive `Content-Encoding` they decode. They're added to the
+   * built-in `br`, `deflate`, and `gzip` decoders, which they can override. A
+   * request with any other `Content-Encoding` results in a
+   * `415 Unsupported Media Type` error response.
+   */
+  contentEncodings?: Record<string, ContentDecoderFn>;
+
+  /**
+   * A function that receives a request body whose charset is not supported by
+   * Node.js, which supports `utf-8` and `utf16le`, and the lowercase charset as
+   * input and returns the decoded body, `null` if the charset is not supported,
+   * or a promise that resolves with either of these. A request whose charset is
+   * not supported results in a `415 Unsupported Media Type` error response.
+   */
+  decodeCharset?: CharsetDecoderFn;
+
+  /**
+   * How the middleware handles errors. With `'respond'`, it sends an error
+   * response itself. With `'next'`, it passes the error, which is an
+   * `http-errors` instance with a machine-readable `extensions.code`, to
+   * `next(error)` instead, so that the error-handling middleware of the server
+   * sends the response. Errors that occur when the options are resolved are
+   * always sent as error responses. Defaults to `'respond'`.
+   */
+  errorHandling?: ErrorHandling;
+
+  /**
+   * A function that receives each error that the middleware responds with,
+   * which has a machine-readable `extensions.code`, and the request as input
+   * and returns the error to send instead, which allows reshaping or redacting
+   * errors. If it throws, a generic internal server error is sent instead.
+   */
+  formatError?: FormatErrorFn<TRequest>;
+
+  /**
+   * The hash algorithm used to verify that the query text provided by a request
+   * matches its query ID. Either the name of an algorithm supported by
+   * `crypto.createHash`, whose hex digest is compared to the query ID, or a
+   * function that receives the query text as input and returns its hash or a
+   * promise that resolves with its hash. Defaults to `'sha256'`.
+   */
+  hashAlgorithm?: HashFn | string;
+
+  /**
+   * The maximum number of operations in a batched request when `batching` is
+   * `true`. Larger batches result in a `400 Bad Request` error response.
+   * Defaults to `10`.
+   */
+  maxBatchSize?: number;
+
+  /**
+   * A metrics collector created with `createMetrics`, which counts requests by
+   * outcome, measures the latency of lookups, and counts the usage of each
+   * query ID. Its `render` method returns the metrics in the Prometheus text
+   * exposition format.
+   */
+  metrics?: Metrics;
+
+  /**
+   * Query maps keyed by namespace, such as the name and version of a client, so
+   * that each client can ship its own persisted queries even if their query
+   * IDs collide. The namespace of a request is determined by
+   * `resolveNamespace`. Requests that do not match any namespace use the
+   * top-level `queryMap` and `strict` options.
+   */
+  namespaces?: Record<string, NamespaceOptions<TRequest>>;
+
+  /**
+   * A function that is called once the request body is available, whether it
+   * was parsed by the middleware or by a previous middleware, with the body,
+   * the time spent parsing it, and the request. If it throws or returns a
+   * promise that rejects, the error is logged with `console.error`.
+   */
+  onBodyParsed?: (event: BodyParsedEvent) => void;
+
+  /**
+   * A function that receives each error of the middleware and the request as
+   * input, which allows observing errors, such as for logging, without taking
+   * over the response. For a batch, it receives the error of the first
+   * operation that failed, or, when `partialBatches` is `true`, the error of
+   * each operation that failed. If it throws or returns a promise that
+   * rejects, the error is logged with `console.error`.
+   */
+  onError?: OnErrorFn<TRequest>;
+
+  /**
+   * A function that receives the report of the persisted queries that are
+   * invalid against `schema`, when they don't make the middleware fail to
+   * start because `strict` isn't `true`. Defaults to `console.warn`.
+   */
+  onInvalidQueries?: (message: string) => void;
+
+  /**
+   * A function that is called when a query ID does not match any persisted
+   * query, with the query ID, the lookup duration, the request, and whether the
+   * request is rejected. If it throws or returns a promise that rejects, the
+   * error is logged with `console.error`.
+   */
+  onMiss?: (event: MissEvent<TRequest>) => void;
+
+  /**
+   * A function that is called when a request is rejected because only
+   * persisted queries are allowed for it, with the request and the reason. If
+   * it throws or returns a promise that rejects, the error is logged with
+   * `console.error`.
+   */
+  onRejectStrict?: (event: RejectStrictEvent<TRequest>) => void;
+
+  /**
+   * A function that is called when a query ID is resolved to a persisted
+   * query, with the query ID, the lookup duration, the request, and whether the
+   * query was found or registered. If it throws or returns a promise that
+   * rejects, the error is logged with `console.error`.
+   */
+  onResolve?: (event: ResolveEvent<TRequest>) => void;
+
+  /**
+   * Specifies whether a batch in which some operations fail is still passed on
+   * to the GraphQL executor when `batching` is `true`. By default, a batch is
+   * all or nothing: if any operation fails, the middleware responds with the
+   * errors of each operation. When `partialBatches` is `true` and at least one
+   * operation is resolved, the failed operations are replaced with `null` in
+   * `req.body`, and their error results are set on
+   * `req.persistedQuery.batchErrors`. Defaults to `false`.
+   */
+  partialBatches?: boolean;
 
-export interface OptionsData {
   /**
    * The key in the search params or request body that specifies the ID of the
    * persisted query.
@@ -33,23 +1081,100 @@ export interface OptionsData {
   queryIdKey?: string;
 
   /**
-   * Either an object mapping query IDs to query text or a function that
+   * Either an object mapping query IDs to query text, a function that
    * receives the query ID as input and returns the query text, `null`, or a
-   * promise that resolves with query text or `null`.
+   * promise that resolves with query text or `null`, or a `QueryStore` whose
+   * `get` method behaves like such a function.
+   */
+  queryMap: PromiseOrValue<QueryMap<TRequest>>;
+
+  /**
+   * A function that receives the request as input and returns the namespace of
+   * the request, a list of candidate namespaces of which the first one that
+   * exists is used, `null`, or a promise that resolves with any of these.
+   * Defaults to `resolveClientNamespace`, which reads the
+   * `apollographql-client-name` and `apollographql-client-version` headers.
    */
-  queryMap: PromiseOrValue<QueryMap>;
+  resolveNamespace?: ResolveNamespaceFn<TRequest>;
+
+  /**
+   * The GraphQL schema to validate the persisted queries against when the
+   * middleware is created. This requires `queryMap` to be an object or a
+   * `QueryStore` with an `entries` method. Invalid queries are reported with
+   * `onInvalidQueries` or, when `strict` is `true`, make the middleware fail to
+   * start. To validate manifests reloaded by `createFileQueryStore`, pass the
+   * schema to it too.
+   */
+  schema?: GraphQLSchema;
 
   /**
    * Specifies whether only persisted queries are allowed. When `strict` is
    * `true`, any request that contains the query text or that does not contain a
    * valid query ID is considered invalid and results in a `400 Bad Request`
-   * error response.
+   * error response. Either a boolean or a function that receives the request
+   * as input and returns a boolean or a promise that resolves with a boolean,
+   * which allows ad-hoc queries only for some requests, such as those of
+   * internal tools. The decision is exposed to downstream middleware as
+   * `req.persistedQuery.strict`.
+   */
+  strict?: StrictFn<TRequest> | boolean;
+
+  /**
+   * Specifies whether the middleware creates OpenTelemetry spans for resolving
+   * the options, parsing the request body, and looking up query IDs, tagged
+   * with the query ID, the operation name, and the outcome, and runs the
+   * downstream handler in the context of its span. This requires the
+   * `@opentelemetry/api` package, which is a no-op when no OpenTelemetry SDK is
+   * registered. Defaults to `false`.
+   */
+  tracing?: boolean;
+
+  /**
+   * A usage recorder created with `createUsageRecorder`, which tracks when and
+   * how often each query ID is resolved to a persisted query, so that queries
+   * that are no longer used can be found with `findUnusedPersistedQueries`.
+   */
+  usageRecorder?: UsageRecorder;
+
+  /**
+   * Specifies whether the query text provided together with a query ID must
+   * hash to that query ID according to `hashAlgorithm`. If it does not, the
+   * request results in a `400 Bad Request` error response. Queries are always
+   * verified before they are registered with `autoRegister`.
    */
-  strict?: boolean;
+  verifyHash?: boolean;
 }
 
-export type Options = PromiseOrValue<OptionsData>;
+export type Options<TRequest = Request> = PromiseOrValue<OptionsData<TRequest>>;
 
-export interface ParsedOptions extends Omit<Required<OptionsData>, 'queryMap'> {
-  queryMap: LooseQueryMap;
+export interface ParsedOptions
+  extends Omit<
+    Required<OptionsData<RequestContext>>,
+    | 'allowedOperationTypes'
+    | 'bodyLimit'
+    | 'cacheControl'
+    | 'contentEncodings'
+    | 'hashAlgorithm'
+    | 'metrics'
+    | 'namespaces'
+    | 'onInvalidQueries'
+    | 'queryMap'
+    | 'resolveNamespace'
+    | 'schema'
+    | 'strict'
+    | 'tracing'
+    | 'usageRecorder'
+  > {
+  allowedOperationTypes: Map<string, readonly OperationType[]>;
+  bodyLimit: number;
+  cacheControl: ParsedCacheControl | null;
+  contentEncodings: Map<string, ContentDecoderFn>;
+  hashAlgorithm: LooseHashFn;
+  metrics: Metrics | null;
+  namespaces: Map<string, ParsedNamespace>;
+  queryStore: LooseQueryStore;
+  resolveNamespace: LooseResolveNamespaceFn;
+  strict: LooseStrictFn;
+  tracing: ParsedTracing | null;
+  usageRecorder: UsageRecorder | null;
 }
@@ -0,0 +1,58 @@
+import type { GraphQLError, GraphQLSchema } from 'graphql';
+import { parse, validate } from 'graphql';
+import type { PersistedQueryValidationReport } from './types';
+
+function getQueryErrors(schema: GraphQLSchema, query: string): readonly GraphQLError[] {
+  try {
+    return validate(schema, parse(query));
+  } catch (error: unknown) {
+    return [error as GraphQLError];
+  }
+}
+
+/**
+ * Parses and validates persisted queries against a GraphQL schema, so that
+ * queries that are invalid, for example because of a typo or a breaking schema
+ * change, are detected before clients execute them.
+ * @param schema The GraphQL schema to validate the queries against.
+ * @param queries The persisted queries as an iterable of query ID and query
+ * text pairs, such as the result of `Object.entries(queryMap)`.
+ * @returns A report listing the IDs of the valid queries and the IDs and errors
+ * of the invalid queries.
+ * @example
+ * const { invalid } = validatePersistedQueries(schema, Object.entries(queryMap));
+ */
+export function validatePersistedQueries(
+  schema: GraphQLSchema,
+  queries: Iterable<[string, string]>,
+): PersistedQueryValidationReport {
+  const report: PersistedQueryValidationReport = { invalid: [], valid: [] };
+
+  for (const [queryId, query] of queries) {
+    const errors = getQueryErrors(schema, query);
+
+    if (errors.length) {
+      report.invalid.push({ errors, queryId });
+    } else {
+      report.valid.push(queryId);
+    }
+  }
+
+  return report;
+}
+
+export function formatValidationReport(
+  report: PersistedQueryValidationReport,
+  namespace?: string,
+): string {
+  const invalidQueries = report.invalid.map(
+    ({ errors, queryId }) => `- "${queryId}": ${errors.map((error) => error.message).join(' ')}`,
+  );
+
+  const subject =
+    namespace == null
+      ? 'Some persisted queries'
+      : `Some persisted queries of namespace "${namespace}"`;
+
+  return `${subject} are invalid against the schema:\n${invalidQueries.join('\n')}`;
+}
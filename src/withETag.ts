@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { HTTP_STATUS_NOT_MODIFIED, HTTP_STATUS_OK } from './constants';
+import { isFunction, isObject, isString } from './typeguards';
+import type { AnyFunction, Handler, Middleware, Request, Response } from './types';
+
+const WEAK_PREFIX = 'W/';
+
+function getETag(body: Buffer): string {
+  return `"${createHash('sha1').update(body).digest('hex')}"`;
+}
+
+function stripWeakPrefix(etag: string): string {
+  return etag.startsWith(WEAK_PREFIX) ? etag.slice(WEAK_PREFIX.length) : etag;
+}
+
+function isNotModified(req: Request, etag: string): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+
+  if (ifNoneMatch == null) {
+    return false;
+  }
+
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || stripWeakPrefix(tag) === etag);
+}
+
+function toBuffer(chunk: unknown, encoding: unknown): Buffer {
+  if (isString(chunk)) {
+    return Buffer.from(chunk, isString(encoding) ? (encoding as BufferEncoding) : undefined);
+  }
+
+  return Buffer.from(chunk as Uint8Array);
+}
+
+function bufferResponse(req: Request, res: Response): void {
+  const writeHead = res.writeHead.bind(res) as (...args: unknown[]) => Response;
+  const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+  const end = res.end.bind(res) as (...args: unknown[]) => Response;
+  const chunks: Buffer[] = [];
+  const callbacks: AnyFunction[] = [];
+
+  function collect([chunk, encoding, ...args]: unknown[]): void {
+    callbacks.push(...[chunk, encoding, ...args].filter(isFunction));
+
+    if (chunk != null && !isFunction(chunk)) {
+      chunks.push(toBuffer(chunk, encoding));
+    }
+  }
+
+  function finish(): void {
+    for (const callback of callbacks) {
+      callback();
+    }
+  }
+
+  res.writeHead = ((statusCode: number, ...args: unknown[]): Response => {
+    res.statusCode = statusCode;
+
+    for (const arg of args) {
+      if (isString(arg)) {
+        res.statusMessage = arg;
+      } else if (isObject(arg)) {
+        for (const [name, value] of Object.entries(arg)) {
+          res.setHeader(name, value as string);
+        }
+      }
+    }
+
+    return res;
+  }) as Response['writeHead'];
+
+  res.write = ((...args: unknown[]): boolean => {
+    collect(args);
+
+    return true;
+  }) as Response['write'];
+
+  res.end = ((...args: unknown[]): Response => {
+    collect(args);
+
+    res.writeHead = writeHead as Response['writeHead'];
+    res.write = write as Response['write'];
+    res.end = end as Response['end'];
+
+    const body = Buffer.concat(chunks);
+
+    if (res.statusCode !== HTTP_STATUS_OK) {
+      return end(body, finish);
+    }
+
+    const etag = getETag(body);
+
+    res.setHeader('ETag', etag);
+
+    if (!isNotModified(req, etag)) {
+      return end(body, finish);
+    }
+
+    res.statusCode = HTTP_STATUS_NOT_MODIFIED;
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Length');
+
+    return end(finish);
+  }) as Response['end'];
+}
+
+/**
+ * Wraps a handler, such as `graphqlHTTP` from `express-graphql`, so that its
+ * successful responses to GET requests get a strong `ETag` computed over the
+ * response body, and requests whose `If-None-Match` header matches it get a
+ * `304 Not Modified` response without a body. To do so, the response is
+ * buffered until the handler ends it.
+ * @param handler The handler that sends the response.
+ * @returns An HTTP server middleware.
+ * @example
+ * app.use('/graphql', persistedQueries({ queryMap }), withETag(graphqlHTTP({ schema })));
+ */
+export function withETag(handler: Handler): Middleware {
+  return async function withETagMiddleware(req, res, next): Promise<void> {
+    if (req.method === 'GET') {
+      bufferResponse(req, res);
+    }
+
+    await handler(req, res, next);
+  };
+}